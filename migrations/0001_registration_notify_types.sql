@@ -0,0 +1,3 @@
+-- JSON array of notify types to send, or NULL for every type except
+-- 'vote_cast'
+ALTER TABLE registrations ADD COLUMN notifyTypes TEXT;
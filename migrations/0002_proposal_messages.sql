@@ -0,0 +1,17 @@
+-- how to send proposal status updates: 'edit', 'reply', or 'new'
+ALTER TABLE registrations ADD COLUMN updateMode TEXT NOT NULL DEFAULT 'edit';
+
+-- Proposal messages sent to chats, used to update them later
+CREATE TABLE proposal_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  messageId INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  -- unique chain ID, DAO, proposal ID, chat ID, and message thread ID combo
+  CONSTRAINT unique_proposal_message UNIQUE (chainId, dao, proposalId, chatId, messageThreadId)
+);
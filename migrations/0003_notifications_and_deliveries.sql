@@ -0,0 +1,27 @@
+-- Notify requests, keyed by idempotency key so repeated requests do not send
+-- notifications again
+CREATE TABLE notifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  idempotencyKey TEXT NOT NULL,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  type TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  queued INTEGER NOT NULL DEFAULT 0,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_notification UNIQUE (idempotencyKey)
+);
+
+-- Delivery status of each notification to each chat
+CREATE TABLE deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  idempotencyKey TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  -- 'pending', 'sent', or 'failed'
+  status TEXT NOT NULL DEFAULT 'pending',
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  -- unique idempotency key, chat ID, and message thread ID combo
+  CONSTRAINT unique_delivery UNIQUE (idempotencyKey, chatId, messageThreadId)
+);
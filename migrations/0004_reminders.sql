@@ -0,0 +1,29 @@
+-- hours before voting closes to send a reminder, or NULL for no reminders
+ALTER TABLE registrations ADD COLUMN reminderHours INTEGER DEFAULT 24;
+
+-- Proposals open for voting, used to send reminders before voting closes
+CREATE TABLE open_proposals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  daoName TEXT NOT NULL,
+  daoUrl TEXT NOT NULL,
+  title TEXT NOT NULL,
+  url TEXT NOT NULL,
+  expiresAt DATETIME NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  -- unique chain ID, DAO, and proposal ID combo
+  CONSTRAINT unique_open_proposal UNIQUE (chainId, dao, proposalId)
+);
+
+-- Reminders already sent to chats
+CREATE TABLE proposal_reminders (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,19 @@
+-- 'daily' or 'weekly' to send a digest instead of individual notifications,
+-- or NULL to send them as they happen
+ALTER TABLE registrations ADD COLUMN digest TEXT;
+
+-- Notifications held for a chat's next digest
+CREATE TABLE digest_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  type TEXT NOT NULL,
+  daoName TEXT NOT NULL,
+  daoUrl TEXT NOT NULL,
+  title TEXT NOT NULL,
+  url TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,2 @@
+-- minimum percent of the voting power a vote needs to be notified about
+ALTER TABLE registrations ADD COLUMN minVotingPower REAL NOT NULL DEFAULT 10;
@@ -0,0 +1,11 @@
+-- Per-chat message settings, shared by all topics in a chat
+CREATE TABLE chat_settings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  -- JSON object of header template overrides by template name
+  templates TEXT,
+  descriptionLength INTEGER,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_chat_settings UNIQUE (chatId)
+);
@@ -0,0 +1,20 @@
+-- Last known DAO info from the indexer
+CREATE TABLE dao_info (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao TEXT NOT NULL,
+  chainId TEXT NOT NULL,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_dao_info UNIQUE (dao)
+);
+
+-- Last known admins of group chats
+CREATE TABLE chat_admins (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  -- JSON array of user IDs
+  adminIds TEXT NOT NULL,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_chat_admins UNIQUE (chatId)
+);
@@ -0,0 +1,25 @@
+-- Every attempt to send a delivery, for debugging and metrics
+CREATE TABLE delivery_attempts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  idempotencyKey TEXT NOT NULL,
+  -- NULL for digests, which are not for one registration
+  registrationId INTEGER,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  type TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  -- queue delivery attempt, starting at 1
+  attempt INTEGER NOT NULL,
+  -- 1 if sent, 0 if failed
+  ok INTEGER NOT NULL,
+  -- Telegram error code, or NULL if sent or Telegram could not be reached
+  errorCode INTEGER,
+  error TEXT,
+  latencyMs INTEGER NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX delivery_attempts_dao ON delivery_attempts (chainId, dao, createdAt);
+CREATE INDEX delivery_attempts_created ON delivery_attempts (createdAt);
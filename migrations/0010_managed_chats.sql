@@ -0,0 +1,37 @@
+-- Group chats and channels the bot is in, used to pick chats to manage
+CREATE TABLE chats (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_chat UNIQUE (chatId)
+);
+
+-- Forum topics seen in group chats
+CREATE TABLE chat_topics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT NOT NULL,
+  -- NULL if the topic's name has not been seen
+  name TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_chat_topic UNIQUE (chatId, messageThreadId)
+);
+
+-- Chats managed by users from their private chat with the bot
+CREATE TABLE manage_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  -- the user's ID, which is also their private chat's ID
+  userId TEXT NOT NULL,
+  -- chat and topic that commands apply to, or NULL for the private chat
+  chatId TEXT,
+  messageThreadId TEXT,
+  -- DAO from a deep link, waiting for the user to pick a chat to track it in
+  dao TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_manage_session UNIQUE (userId)
+);
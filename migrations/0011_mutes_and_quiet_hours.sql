@@ -0,0 +1,23 @@
+-- when a mute ends, or NULL if not muted
+ALTER TABLE registrations ADD COLUMN mutedUntil DATETIME;
+
+-- quiet hours in minutes after midnight in the time zone, or NULL if off
+ALTER TABLE chat_settings ADD COLUMN quietHoursStart INTEGER;
+ALTER TABLE chat_settings ADD COLUMN quietHoursEnd INTEGER;
+ALTER TABLE chat_settings ADD COLUMN timeZone TEXT NOT NULL DEFAULT 'UTC';
+-- 'hold' to send messages when quiet hours end, or 'silent' to send them
+-- without a notification sound
+ALTER TABLE chat_settings ADD COLUMN quietHoursMode TEXT NOT NULL DEFAULT 'hold';
+
+-- Deliveries held during a chat's quiet hours, enqueued when they end
+CREATE TABLE held_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  -- JSON delivery job
+  job TEXT NOT NULL,
+  releaseAt DATETIME NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX held_deliveries_release ON held_deliveries (releaseAt);
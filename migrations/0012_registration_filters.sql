@@ -0,0 +1,2 @@
+-- JSON array of keyword and regex filters on proposals, or NULL for none
+ALTER TABLE registrations ADD COLUMN filters TEXT;
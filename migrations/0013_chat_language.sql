@@ -0,0 +1,3 @@
+-- language of replies and notifications, like 'en', or NULL to use the
+-- language of the user sending a command
+ALTER TABLE chat_settings ADD COLUMN language TEXT;
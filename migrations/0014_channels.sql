@@ -0,0 +1,14 @@
+-- Discord and generic webhooks that track DAOs like Telegram chats. Their
+-- registrations and other rows use the channel's chat ID, like
+-- 'discord:<UUID>'
+CREATE TABLE channels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  -- 'discord' or 'webhook'
+  type TEXT NOT NULL,
+  url TEXT NOT NULL,
+  -- key to sign generic webhook requests with, or NULL for Discord
+  secret TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_channel UNIQUE (chatId)
+);
@@ -0,0 +1,8 @@
+-- Messages sent to each group in the current 60 second window, to stay under
+-- Telegram's per group rate limit across queue batches
+CREATE TABLE group_send_windows (
+  chatId TEXT PRIMARY KEY,
+  -- Unix seconds when the window started
+  windowStart INTEGER NOT NULL,
+  sent INTEGER NOT NULL
+);
@@ -1,3 +1,7 @@
+-- The current schema, used by tests. Applying it drops every table, so
+-- databases are created and upgraded with the migrations in `migrations/`
+-- instead. Changes here need a new migration too.
+
 -- Registration
 DROP TABLE IF EXISTS registrations;
 
@@ -7,8 +11,289 @@ CREATE TABLE registrations (
   dao TEXT NOT NULL,
   chatId TEXT NOT NULL,
   messageThreadId TEXT,
+  -- JSON array of notify types to send, or NULL for every type except
+  -- 'vote_cast'
+  notifyTypes TEXT,
+  -- how to send proposal status updates: 'edit', 'reply', or 'new'
+  updateMode TEXT NOT NULL DEFAULT 'edit',
+  -- hours before voting closes to send a reminder, or NULL for no reminders
+  reminderHours INTEGER DEFAULT 24,
+  -- 'daily' or 'weekly' to send a digest instead of individual
+  -- notifications, or NULL to send them as they happen
+  digest TEXT,
+  -- minimum percent of the voting power a vote needs to be notified about
+  minVotingPower REAL NOT NULL DEFAULT 10,
+  -- when a mute ends, or NULL if not muted. muted notifications are held
+  -- until it ends if that is within a week, and dropped otherwise
+  mutedUntil DATETIME,
+  -- JSON array of keyword and regex filters on proposals, or NULL for none
+  filters TEXT,
   createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   -- unique chain ID, DAO, chat ID, and message thread ID combo
   CONSTRAINT unique_registration UNIQUE (chainId, dao, chatId, messageThreadId)
-);
\ No newline at end of file
+);
+
+-- Proposal messages sent to chats, used to update them later
+DROP TABLE IF EXISTS proposal_messages;
+
+CREATE TABLE proposal_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  messageId INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  -- unique chain ID, DAO, proposal ID, chat ID, and message thread ID combo
+  CONSTRAINT unique_proposal_message UNIQUE (chainId, dao, proposalId, chatId, messageThreadId)
+);
+
+-- Notify requests, keyed by idempotency key so repeated requests do not send
+-- notifications again
+DROP TABLE IF EXISTS notifications;
+
+CREATE TABLE notifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  idempotencyKey TEXT NOT NULL,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  type TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  queued INTEGER NOT NULL DEFAULT 0,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_notification UNIQUE (idempotencyKey)
+);
+
+-- Delivery status of each notification to each chat
+DROP TABLE IF EXISTS deliveries;
+
+CREATE TABLE deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  idempotencyKey TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  -- 'pending', 'queued', 'sent', or 'failed'
+  status TEXT NOT NULL DEFAULT 'pending',
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  -- unique idempotency key, chat ID, and message thread ID combo
+  CONSTRAINT unique_delivery UNIQUE (idempotencyKey, chatId, messageThreadId)
+);
+
+-- Proposals open for voting, used to send reminders before voting closes
+DROP TABLE IF EXISTS open_proposals;
+
+CREATE TABLE open_proposals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  daoName TEXT NOT NULL,
+  daoUrl TEXT NOT NULL,
+  title TEXT NOT NULL,
+  url TEXT NOT NULL,
+  expiresAt DATETIME NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  -- unique chain ID, DAO, and proposal ID combo
+  CONSTRAINT unique_open_proposal UNIQUE (chainId, dao, proposalId)
+);
+
+-- Reminders already sent to chats
+DROP TABLE IF EXISTS proposal_reminders;
+
+CREATE TABLE proposal_reminders (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Notifications held for a chat's next digest
+DROP TABLE IF EXISTS digest_events;
+
+CREATE TABLE digest_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  type TEXT NOT NULL,
+  daoName TEXT NOT NULL,
+  daoUrl TEXT NOT NULL,
+  title TEXT NOT NULL,
+  url TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Per-chat message settings, shared by all topics in a chat
+DROP TABLE IF EXISTS chat_settings;
+
+CREATE TABLE chat_settings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  -- JSON object of header template overrides by template name
+  templates TEXT,
+  descriptionLength INTEGER,
+  -- quiet hours in minutes after midnight in the time zone, or NULL if off
+  quietHoursStart INTEGER,
+  quietHoursEnd INTEGER,
+  timeZone TEXT NOT NULL DEFAULT 'UTC',
+  -- 'hold' to send messages when quiet hours end, or 'silent' to send them
+  -- without a notification sound
+  quietHoursMode TEXT NOT NULL DEFAULT 'hold',
+  -- language of replies and notifications, like 'en', or NULL to use the
+  -- language of the user sending a command
+  language TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_chat_settings UNIQUE (chatId)
+);
+
+-- Last known DAO info from the indexer
+DROP TABLE IF EXISTS dao_info;
+
+CREATE TABLE dao_info (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao TEXT NOT NULL,
+  chainId TEXT NOT NULL,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_dao_info UNIQUE (dao)
+);
+
+-- Last known admins of group chats
+DROP TABLE IF EXISTS chat_admins;
+
+CREATE TABLE chat_admins (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  -- JSON array of user IDs
+  adminIds TEXT NOT NULL,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_chat_admins UNIQUE (chatId)
+);
+
+-- Every attempt to send a delivery, for debugging and metrics
+DROP TABLE IF EXISTS delivery_attempts;
+
+CREATE TABLE delivery_attempts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  idempotencyKey TEXT NOT NULL,
+  -- NULL for digests, which are not for one registration
+  registrationId INTEGER,
+  chainId TEXT NOT NULL,
+  dao TEXT NOT NULL,
+  proposalId TEXT NOT NULL,
+  type TEXT NOT NULL,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  -- queue delivery attempt, starting at 1
+  attempt INTEGER NOT NULL,
+  -- 1 if sent, 0 if failed
+  ok INTEGER NOT NULL,
+  -- Telegram error code or HTTP status, or NULL if sent or the channel could
+  -- not be reached
+  errorCode INTEGER,
+  error TEXT,
+  latencyMs INTEGER NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX delivery_attempts_dao ON delivery_attempts (chainId, dao, createdAt);
+CREATE INDEX delivery_attempts_created ON delivery_attempts (createdAt);
+
+-- Group chats and channels the bot is in, used to pick chats to manage
+DROP TABLE IF EXISTS chats;
+
+CREATE TABLE chats (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_chat UNIQUE (chatId)
+);
+
+-- Forum topics seen in group chats
+DROP TABLE IF EXISTS chat_topics;
+
+CREATE TABLE chat_topics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT NOT NULL,
+  -- NULL if the topic's name has not been seen
+  name TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_chat_topic UNIQUE (chatId, messageThreadId)
+);
+
+-- Chats managed by users from their private chat with the bot
+DROP TABLE IF EXISTS manage_sessions;
+
+CREATE TABLE manage_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  -- the user's ID, which is also their private chat's ID
+  userId TEXT NOT NULL,
+  -- chat and topic that commands apply to, or NULL for the private chat
+  chatId TEXT,
+  messageThreadId TEXT,
+  -- DAO from a deep link, waiting for the user to pick a chat to track it in
+  dao TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_manage_session UNIQUE (userId)
+);
+
+-- Discord and generic webhooks that track DAOs like Telegram chats. Their
+-- registrations and other rows use the channel's chat ID, like
+-- 'discord:<UUID>'
+DROP TABLE IF EXISTS channels;
+
+CREATE TABLE channels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  -- 'discord' or 'webhook'
+  type TEXT NOT NULL,
+  url TEXT NOT NULL,
+  -- key to sign generic webhook requests with, or NULL for Discord
+  secret TEXT,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_channel UNIQUE (chatId)
+);
+
+-- Deliveries held during a chat's quiet hours or a registration's mute,
+-- enqueued when they end
+DROP TABLE IF EXISTS held_deliveries;
+
+CREATE TABLE held_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chatId TEXT NOT NULL,
+  messageThreadId TEXT,
+  -- JSON delivery job
+  job TEXT NOT NULL,
+  releaseAt DATETIME NOT NULL,
+  createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX held_deliveries_release ON held_deliveries (releaseAt);
+
+-- Messages sent to each group in the current 60 second window, to stay under
+-- Telegram's per group rate limit across queue batches
+DROP TABLE IF EXISTS group_send_windows;
+
+CREATE TABLE group_send_windows (
+  chatId TEXT PRIMARY KEY,
+  -- Unix seconds when the window started
+  windowStart INTEGER NOT NULL,
+  sent INTEGER NOT NULL
+);
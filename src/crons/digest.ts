@@ -0,0 +1,194 @@
+import { MessageKey } from '../locales'
+import {
+  ChatSettingsRow,
+  DeliveryJob,
+  DigestEventRow,
+  DigestFrequency,
+  Env,
+  Language,
+  NotifyType,
+  ScheduledMessageType,
+  UpdateMode,
+} from '../types'
+import {
+  DEFAULT_LANGUAGE,
+  escapeMarkdownV2,
+  escapeMarkdownV2Url,
+  translate,
+} from '../utils'
+import { enqueueDeliveries } from '../queues/delivery'
+
+// Daily at 14:00 UTC. Must match a cron trigger in wrangler.toml.
+export const DIGEST_CRON = '0 14 * * *'
+
+// Weekly digests are sent on Mondays.
+const WEEKLY_DIGEST_DAY = 1
+
+// Telegram messages are limited to 4096 characters.
+const MAX_DIGEST_LENGTH = 4000
+
+// Digest sections, in order.
+const DIGEST_SECTIONS: [NotifyType, MessageKey][] = [
+  [NotifyType.ProposalCreated, 'digestNew'],
+  [NotifyType.ProposalExecuted, 'digestPassed'],
+  [NotifyType.ProposalExecutionFailed, 'digestFailed'],
+  [NotifyType.ProposalVetoTimelock, 'digestVetoTimelock'],
+  [NotifyType.ProposalVetoed, 'digestVetoed'],
+  [NotifyType.ProposalClosed, 'digestClosed'],
+]
+
+const DIGEST_TITLES: Record<DigestFrequency, MessageKey> = {
+  [DigestFrequency.Daily]: 'digestTitleDaily',
+  [DigestFrequency.Weekly]: 'digestTitleWeekly',
+}
+
+// Render a chat's digest, listing proposals per DAO in each section.
+const renderDigest = (
+  frequency: DigestFrequency,
+  events: DigestEventRow[],
+  language: Language
+): string => {
+  const lines = [
+    `*${escapeMarkdownV2(translate(language, DIGEST_TITLES[frequency]))}*`,
+    ...Object.values(
+      events.reduce((acc, event) => {
+        const key = `${event.chainId}:${event.dao}`
+        acc[key] = [...(acc[key] ?? []), event]
+        return acc
+      }, {} as Record<string, DigestEventRow[]>)
+    ).flatMap((daoEvents) => [
+      '',
+      `[${escapeMarkdownV2(daoEvents[0].daoName)}](${escapeMarkdownV2Url(
+        daoEvents[0].daoUrl
+      )})`,
+      ...DIGEST_SECTIONS.flatMap(([type, labelKey]) => {
+        const sectionEvents = daoEvents.filter((event) => event.type === type)
+        return sectionEvents.length > 0
+          ? [
+              `_${escapeMarkdownV2(translate(language, labelKey))}:_`,
+              ...sectionEvents.map(
+                ({ proposalId, url, title }) =>
+                  `– [${escapeMarkdownV2(
+                    translate(language, 'proposalLabel', { id: proposalId })
+                  )}](${escapeMarkdownV2Url(url)}): ${escapeMarkdownV2(title)}`
+              ),
+            ]
+          : []
+      }),
+    ]),
+  ]
+
+  // Drop lines that do not fit, noting how many were left out.
+  let text = ''
+  for (const [index, line] of lines.entries()) {
+    if (text.length + line.length + 1 > MAX_DIGEST_LENGTH) {
+      text += `\n${escapeMarkdownV2(
+        translate(language, 'digestMoreLines', {
+          count: lines.length - index,
+        })
+      )}`
+      break
+    }
+    text += (index > 0 ? '\n' : '') + line
+  }
+
+  return text
+}
+
+// Send one digest message per chat and topic in digest mode, summarizing the
+// events held since its last digest. Daily digests are sent every time, and
+// weekly digests only on the weekly digest day. Events for muted registrations
+// are held until the mute ends.
+export const sendDigests = async (
+  env: Env,
+  scheduledTime: number
+): Promise<void> => {
+  const frequencies = [
+    DigestFrequency.Daily,
+    ...(new Date(scheduledTime).getUTCDay() === WEEKLY_DIGEST_DAY
+      ? [DigestFrequency.Weekly]
+      : []),
+  ]
+
+  const { results: events = [] } = await env.DB.prepare(
+    `SELECT e.id, e.chainId, e.dao, e.proposalId, e.type, e.daoName, e.daoUrl, e.title, e.url, e.chatId, e.messageThreadId, r.digest, s.language FROM digest_events e JOIN registrations r ON r.chainId = e.chainId AND r.dao = e.dao AND r.chatId = e.chatId AND r.messageThreadId IS e.messageThreadId LEFT JOIN chat_settings s ON s.chatId = e.chatId WHERE (r.mutedUntil IS NULL OR r.mutedUntil <= datetime('now')) AND r.digest IN (${frequencies
+      .map((_, index) => `?${index + 1}`)
+      .join(', ')}) ORDER BY e.id`
+  )
+    .bind(...frequencies)
+    .all<
+      DigestEventRow & { id: number; digest: DigestFrequency } & Pick<
+          ChatSettingsRow,
+          'language'
+        >
+    >()
+
+  // Group events by chat and topic.
+  const chats = Object.values(
+    events.reduce((acc, event) => {
+      const key = `${event.chatId}:${event.messageThreadId}`
+      acc[key] = [...(acc[key] ?? []), event]
+      return acc
+    }, {} as Record<string, typeof events>)
+  )
+
+  const date = new Date(scheduledTime).toISOString().slice(0, 10)
+  const jobs = chats.map((chatEvents): DeliveryJob => {
+    const { chatId, messageThreadId, language } = chatEvents[0]
+    // A chat tracking DAOs with different frequencies gets the more frequent.
+    const frequency = chatEvents.some(
+      ({ digest }) => digest === DigestFrequency.Daily
+    )
+      ? DigestFrequency.Daily
+      : DigestFrequency.Weekly
+    const text = renderDigest(
+      frequency,
+      chatEvents,
+      language ?? DEFAULT_LANGUAGE
+    )
+
+    return {
+      idempotencyKey: [
+        ScheduledMessageType.Digest,
+        chatId,
+        messageThreadId,
+        date,
+      ].join(':'),
+      chainId: '',
+      dao: '',
+      proposalId: '',
+      type: ScheduledMessageType.Digest,
+      chatId,
+      messageThreadId,
+      updateMode: UpdateMode.New,
+      markdown: {
+        text,
+        replyText: text,
+        statusLine: '',
+      },
+    }
+  })
+
+  if (jobs.length > 0) {
+    await env.DB.batch(
+      jobs.map(({ idempotencyKey, chatId, messageThreadId }) =>
+        env.DB.prepare(
+          'INSERT OR IGNORE INTO deliveries (idempotencyKey, chatId, messageThreadId) VALUES (?1, ?2, ?3)'
+        ).bind(idempotencyKey, chatId, messageThreadId)
+      )
+    )
+
+    await enqueueDeliveries(env, jobs)
+  }
+
+  // Remove sent events, as well as events for registrations that are no
+  // longer in digest mode.
+  await env.DB.batch([
+    env.DB.prepare(
+      'DELETE FROM digest_events WHERE id IN (SELECT value FROM json_each(?1))'
+    ).bind(JSON.stringify(events.map(({ id }) => id))),
+    env.DB.prepare(
+      'DELETE FROM digest_events WHERE NOT EXISTS (SELECT 1 FROM registrations r WHERE r.chainId = digest_events.chainId AND r.dao = digest_events.dao AND r.chatId = digest_events.chatId AND r.messageThreadId IS digest_events.messageThreadId AND r.digest IS NOT NULL)'
+    ),
+  ])
+}
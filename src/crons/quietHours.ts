@@ -0,0 +1,32 @@
+import { DeliveryJob, Env, HeldDeliveryRow } from '../types'
+import { enqueueDeliveries } from '../queues/delivery'
+
+// Deliveries released per run. The rest are released on the next run.
+const MAX_RELEASED_DELIVERIES = 500
+
+// Enqueue deliveries held during quiet hours or mutes that have ended. Runs
+// with the reminders cron.
+export const releaseHeldDeliveries = async (env: Env): Promise<void> => {
+  const { results: held = [] } = await env.DB.prepare(
+    "SELECT id, job FROM held_deliveries WHERE releaseAt <= datetime('now') ORDER BY id LIMIT ?1"
+  )
+    .bind(MAX_RELEASED_DELIVERIES)
+    .all<Pick<HeldDeliveryRow, 'id' | 'job'>>()
+  if (held.length === 0) {
+    return
+  }
+
+  // Enqueue before deleting so none are lost. Jobs already sent are skipped by
+  // the delivery queue.
+  await enqueueDeliveries(
+    env,
+    held.map(({ job }) => JSON.parse(job) as DeliveryJob)
+  )
+  await env.DB.prepare(
+    'DELETE FROM held_deliveries WHERE id IN (SELECT value FROM json_each(?1))'
+  )
+    .bind(JSON.stringify(held.map(({ id }) => id)))
+    .run()
+
+  console.log(`Released ${held.length} held deliveries.`)
+}
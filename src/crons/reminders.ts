@@ -0,0 +1,149 @@
+import {
+  ChannelRow,
+  ChatSettingsRow,
+  DeliveryJob,
+  Env,
+  Language,
+  NotifyType,
+  OpenProposalRow,
+  RegistrationRow,
+  ScheduledMessageType,
+  UpdateMode,
+} from '../types'
+import {
+  DEFAULT_LANGUAGE,
+  getTemplateOptions,
+  renderDeliveryMessages,
+  translate,
+} from '../utils'
+import { enqueueDeliveries } from '../queues/delivery'
+
+// Describe the time left before voting closes.
+const describeTimeLeft = (expiresAt: string, language: Language): string => {
+  // SQLite datetimes are UTC without a timezone.
+  const hours = Math.round(
+    (Date.parse(expiresAt.replace(' ', 'T') + 'Z') - Date.now()) / 3_600_000
+  )
+
+  return hours < 1
+    ? translate(language, 'timeLeftLessThanHour')
+    : translate(language, hours === 1 ? 'timeLeftOne' : 'timeLeftOther', {
+        hours,
+      })
+}
+
+// Send reminders to chats whose reminder lead time has been reached for open
+// proposals in DAOs they track. Each chat is reminded once per proposal, and
+// only if it is notified about new proposals, has not muted the DAO, and does
+// not get digests for it.
+export const sendReminders = async (env: Env): Promise<void> => {
+  const { results: due = [] } = await env.DB.prepare(
+    "SELECT p.chainId, p.dao, p.proposalId, p.daoName, p.daoUrl, p.title, p.url, p.expiresAt, r.id AS registrationId, r.chatId, r.messageThreadId, r.updateMode, s.templates, s.descriptionLength, s.language, c.type AS channel FROM open_proposals p JOIN registrations r ON r.chainId = p.chainId AND r.dao = p.dao LEFT JOIN chat_settings s ON s.chatId = r.chatId LEFT JOIN channels c ON c.chatId = r.chatId WHERE r.reminderHours IS NOT NULL AND r.digest IS NULL AND (r.mutedUntil IS NULL OR r.mutedUntil <= datetime('now')) AND (r.notifyTypes IS NULL OR EXISTS (SELECT 1 FROM json_each(r.notifyTypes) WHERE value = ?1)) AND p.expiresAt > datetime('now') AND p.expiresAt <= datetime('now', '+' || r.reminderHours || ' hours') AND NOT EXISTS (SELECT 1 FROM proposal_reminders s WHERE s.chainId = p.chainId AND s.dao = p.dao AND s.proposalId = p.proposalId AND s.chatId = r.chatId AND s.messageThreadId IS r.messageThreadId)"
+  )
+    .bind(NotifyType.ProposalCreated)
+    .all<
+      OpenProposalRow &
+        Pick<RegistrationRow, 'chatId' | 'messageThreadId' | 'updateMode'> &
+        Pick<DeliveryJob, 'registrationId'> &
+        Pick<
+          ChatSettingsRow,
+          'templates' | 'descriptionLength' | 'language'
+        > & { channel: ChannelRow['type'] | null }
+    >()
+
+  const jobs = due.map(
+    ({
+      chainId,
+      dao,
+      proposalId,
+      daoName,
+      daoUrl,
+      title,
+      url,
+      expiresAt,
+      chatId,
+      messageThreadId,
+      updateMode,
+      registrationId,
+      channel,
+      ...settings
+    }): DeliveryJob => {
+      const type = ScheduledMessageType.Reminder
+      const language = settings.language ?? DEFAULT_LANGUAGE
+
+      return {
+        idempotencyKey: [
+          ScheduledMessageType.Reminder,
+          chainId,
+          dao,
+          proposalId,
+        ].join(':'),
+        chainId,
+        dao,
+        proposalId,
+        type,
+        chatId,
+        messageThreadId,
+        // Reply to the original proposal message unless the chat wants new
+        // messages. Editing would not notify anyone.
+        updateMode:
+          updateMode === UpdateMode.New ? UpdateMode.New : UpdateMode.Reply,
+        ...renderDeliveryMessages(
+          type,
+          {
+            proposal: {
+              label: translate(language, 'proposalLabel', { id: proposalId }),
+              url,
+            },
+            dao: { label: daoName, url: daoUrl },
+            daoName,
+            proposalId,
+            title,
+            timeLeft: describeTimeLeft(expiresAt, language),
+          },
+          getTemplateOptions(type, settings),
+          channel ?? undefined
+        ),
+        url,
+        registrationId,
+        language: settings.language ?? undefined,
+        channel: channel ?? undefined,
+      }
+    }
+  )
+
+  if (jobs.length > 0) {
+    // Record reminders before enqueueing so they are not sent twice.
+    await env.DB.batch(
+      jobs.flatMap(
+        ({
+          idempotencyKey,
+          chainId,
+          dao,
+          proposalId,
+          chatId,
+          messageThreadId,
+        }) => [
+          env.DB.prepare(
+            'INSERT INTO proposal_reminders (chainId, dao, proposalId, chatId, messageThreadId) VALUES (?1, ?2, ?3, ?4, ?5)'
+          ).bind(chainId, dao, proposalId, chatId, messageThreadId),
+          env.DB.prepare(
+            'INSERT OR IGNORE INTO deliveries (idempotencyKey, chatId, messageThreadId) VALUES (?1, ?2, ?3)'
+          ).bind(idempotencyKey, chatId, messageThreadId),
+        ]
+      )
+    )
+
+    await enqueueDeliveries(env, jobs)
+  }
+
+  // Forget proposals whose voting closed without a status update.
+  await env.DB.batch([
+    env.DB.prepare(
+      "DELETE FROM proposal_reminders WHERE EXISTS (SELECT 1 FROM open_proposals p WHERE p.chainId = proposal_reminders.chainId AND p.dao = proposal_reminders.dao AND p.proposalId = proposal_reminders.proposalId AND p.expiresAt <= datetime('now'))"
+    ),
+    env.DB.prepare(
+      "DELETE FROM open_proposals WHERE expiresAt <= datetime('now')"
+    ),
+  ])
+}
@@ -0,0 +1,18 @@
+import { Env } from '../types'
+
+// Daily at 03:00 UTC. Must match a cron trigger in wrangler.toml.
+export const RETENTION_CRON = '0 3 * * *'
+
+// Delivery attempts are kept for 30 days.
+const DELIVERY_ATTEMPT_RETENTION_DAYS = 30
+
+// Delete old delivery attempts.
+export const pruneDeliveryAttempts = async (env: Env): Promise<void> => {
+  const { meta } = await env.DB.prepare(
+    "DELETE FROM delivery_attempts WHERE createdAt < datetime('now', ?1)"
+  )
+    .bind(`-${DELIVERY_ATTEMPT_RETENTION_DAYS} days`)
+    .run()
+
+  console.log(`Pruned ${meta.changes ?? 0} delivery attempts.`)
+}
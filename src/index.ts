@@ -1,14 +1,33 @@
 import { createCors } from 'itty-cors'
 import { Router } from 'itty-router'
 
-import { Env } from './types'
+import { DeliveryJob, Env } from './types'
 import { respondError } from './utils'
+import {
+  authenticateAdmin,
+  countSubscribers,
+  createChannel,
+  createChannelRegistration,
+  deleteChannel,
+  deleteRegistration,
+  getDeliveryMetrics,
+  listDeliveryAttempts,
+  listChannels,
+  listChatDaos,
+  listRegistrations,
+  moveRegistration,
+} from './routes/admin'
 import { notify } from './routes/notify'
 import { telegram } from './routes/telegram'
+import { deliveryQueue } from './queues/delivery'
+import { DIGEST_CRON, sendDigests } from './crons/digest'
+import { releaseHeldDeliveries } from './crons/quietHours'
+import { sendReminders } from './crons/reminders'
+import { RETENTION_CRON, pruneDeliveryAttempts } from './crons/retention'
 
 // Create CORS handlers.
 const { preflight, corsify } = createCors({
-  methods: ['GET', 'POST'],
+  methods: ['GET', 'POST', 'DELETE'],
   origins: ['*'],
   maxAge: 3600,
   headers: {
@@ -25,6 +44,20 @@ router.all('*', preflight)
 // Telegram bot webhook.
 router.post('/telegram', telegram)
 
+// Admin API.
+router.all('/admin/*', authenticateAdmin)
+router.get('/admin/registrations', listRegistrations)
+router.delete('/admin/registrations/:id', deleteRegistration)
+router.post('/admin/registrations/:id/move', moveRegistration)
+router.get('/admin/daos', countSubscribers)
+router.get('/admin/chats/:chatId/daos', listChatDaos)
+router.get('/admin/deliveries', listDeliveryAttempts)
+router.get('/admin/metrics', getDeliveryMetrics)
+router.get('/admin/channels', listChannels)
+router.post('/admin/channels', createChannel)
+router.delete('/admin/channels/:id', deleteChannel)
+router.post('/admin/channels/:id/registrations', createChannelRegistration)
+
 // Indexer notify route.
 router.post(`/:chainId/:dao/notify`, notify)
 
@@ -47,4 +80,25 @@ export default {
       })
       .then(corsify)
   },
+
+  // Notification delivery consumer.
+  async queue(batch: MessageBatch<DeliveryJob>, env: Env): Promise<void> {
+    await deliveryQueue(batch, env)
+  },
+
+  // Cron triggers.
+  async scheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    if (controller.cron === DIGEST_CRON) {
+      ctx.waitUntil(sendDigests(env, controller.scheduledTime))
+    } else if (controller.cron === RETENTION_CRON) {
+      ctx.waitUntil(pruneDeliveryAttempts(env))
+    } else {
+      ctx.waitUntil(sendReminders(env))
+      ctx.waitUntil(releaseHeldDeliveries(env))
+    }
+  },
 }
@@ -0,0 +1,269 @@
+import { Catalog } from '.'
+
+// German messages. See `en.ts` for the placeholder and markup syntax.
+export const de: Catalog = {
+  // Help
+  helpIntro: 'So kannst du mich verwenden:',
+  helpAdd: 'einer DAO folgen',
+  helpRemove: 'einer DAO nicht mehr folgen',
+  helpList: 'die DAOs auflisten, denen du folgst',
+  helpEvents: 'auswählen, über welche Ereignisse du benachrichtigt wirst',
+  helpUpdates:
+    'auswählen, wie du über Statusänderungen von Vorschlägen benachrichtigt wirst',
+  helpReminders: 'auswählen, wann du vor Ende der Abstimmung erinnert wirst',
+  helpVotes:
+    'auswählen, wie viel Stimmkraft eine Stimme für eine Benachrichtigung braucht',
+  helpDigest:
+    'eine tägliche oder wöchentliche Zusammenfassung statt einzelner Benachrichtigungen erhalten',
+  helpMute: 'Benachrichtigungen einer DAO pausieren',
+  helpUnmute: 'Benachrichtigungen einer DAO fortsetzen',
+  helpQuiet: 'Ruhezeiten für diesen Chat festlegen',
+  helpFilters:
+    'nur Vorschläge erhalten, die zu Stichwörtern oder Mustern passen',
+  helpTemplate: 'Benachrichtigungen anpassen',
+  helpLanguage: 'die Sprache auswählen, die ich in diesem Chat spreche',
+  helpManage: 'eine Gruppe oder einen Kanal aus einem privaten Chat verwalten',
+  helpExport: 'die verfolgten DAOs und Einstellungen als Datei herunterladen',
+  helpImport: 'den DAOs und Einstellungen aus einer exportierten Datei folgen',
+  helpHelp: 'diese Nachricht erneut anzeigen',
+  welcomeGroup:
+    'Hallo! Ich sende eine Nachricht, wenn es neue Vorschläge in DAOs gibt, denen du folgst. {help}\n\n_Nur Admins oder Eigentümer können die obigen Befehle verwenden_.',
+  welcomePrivate:
+    'Hallo! Ich sende eine Nachricht, wenn es neue Vorschläge in DAOs gibt, denen du folgst. Du kannst mich zu Gruppenchats hinzufügen, um Vorschläge gemeinsam mit anderen zu verfolgen, oder mich einfach privat verwenden. Um mich in einem Kanal zu verwenden, füge mich als Admin hinzu und poste die Befehle dort. {help}',
+
+  // Usage of settings commands
+  eventsUsage:
+    'Sende `/events{suffix} [DAO] <events>`, um auszuwählen, über welche Ereignisse du benachrichtigt wirst, wobei `<events>` eines oder mehrere von {events} oder `all` ist. Stimmen sind aus, bis du sie auswählst. Lass die DAO weg, um alle hier verfolgten DAOs zu ändern.',
+  updatesUsage:
+    'Sende `/updates{suffix} [DAO] <mode>`, um auszuwählen, wie du benachrichtigt wirst, wenn ein Vorschlag angenommen wird, scheitert oder geschlossen wird, wobei `<mode>` eines von {modes} ist. Lass die DAO weg, um alle hier verfolgten DAOs zu ändern.',
+  remindersUsage:
+    'Sende `/reminders{suffix} [DAO] <hours>`, um so viele Stunden vor Ende der Abstimmung über einen Vorschlag erinnert zu werden, oder `/reminders{suffix} [DAO] off`, um Erinnerungen auszuschalten. Lass die DAO weg, um alle hier verfolgten DAOs zu ändern.',
+  digestUsage:
+    'Sende `/digest{suffix} [DAO] daily` oder `/digest{suffix} [DAO] weekly`, um statt einzelner Benachrichtigungen eine Zusammenfassung pro Tag oder Woche zu erhalten, oder `/digest{suffix} [DAO] off`, um Benachrichtigungen sofort zu erhalten. Lass die DAO weg, um alle hier verfolgten DAOs zu ändern.',
+  muteUsage:
+    'Sende `/mute{suffix} <DAO> [duration]`, um Benachrichtigungen einer DAO zu pausieren, ohne ihre Einstellungen zu verlieren, für eine Dauer wie `8h`, `2d` oder `1w` oder bis du sie wieder aktivierst. Verpasste Benachrichtigungen sende ich, wenn die Stummschaltung innerhalb einer Woche endet, bei längeren Stummschaltungen werden sie verworfen. Sende `/mute{suffix} all [duration]`, um alle hier verfolgten DAOs stummzuschalten, und `/unmute{suffix} [DAO]`, um eine oder alle DAOs wieder zu aktivieren.',
+  quietUsage:
+    'Sende `/quiet{suffix} <start> <end> [time zone] [hold|silent]`, um Ruhezeiten festzulegen, zum Beispiel `/quiet{suffix} 22:00 08:00 Europe/Berlin`. Die Zeitzone ist standardmäßig UTC. Während der Ruhezeiten halte ich Nachrichten zurück, bis sie enden, oder sende sie mit `silent` ohne Benachrichtigungston. Sende `/quiet{suffix} off`, um sie auszuschalten. Ruhezeiten gelten für alle Themen in diesem Chat.',
+  filtersUsage:
+    'Sende `/filters{suffix} <DAO> include <keyword>`, um nur über Vorschläge mit diesem Stichwort im Titel oder in der Beschreibung benachrichtigt zu werden, oder `/filters{suffix} <DAO> exclude <keyword>`, um nie über sie benachrichtigt zu werden. Verwende einen regulären Ausdruck wie `/payroll \\d+/i` statt eines Stichworts, um ein Muster zu finden. Sende `/filters{suffix} <DAO> clear`, um die Filter einer DAO zu entfernen. Vorschläge müssen zu einem der Einschlussfilter passen, falls es welche gibt, und zu keinem der Ausschlussfilter.',
+  votesUsage:
+    'Sende `/votes{suffix} [DAO] <percent>`, um nur über Stimmen mit mindestens diesem Prozentsatz der Stimmkraft benachrichtigt zu werden. Verwende `/events{suffix}`, um Benachrichtigungen über Stimmen ein- oder auszuschalten. Lass die DAO weg, um alle hier verfolgten DAOs zu ändern.',
+  templateUsage:
+    'Sende `/template{suffix} <message> <header>`, um die erste Zeile einer Nachricht anzupassen, wobei `<message>` eines von {templates} ist. Verwende Platzhalter wie `{{proposal}}` und `{{dao}}`, um Details einzufügen. Sende `/template{suffix} <message> reset`, um die Standardvorlage wiederherzustellen. Sende `/template{suffix} length <characters>`, um Beschreibungen von Vorschlägen nach so vielen Zeichen abzuschneiden, `0`, um sie wegzulassen, oder `reset`, um den Standard wiederherzustellen. Vorlagen gelten für alle Themen in diesem Chat.',
+  languageUsage:
+    'Sende `/language{suffix} <language>`, um die Sprache meiner Antworten und Benachrichtigungen in diesem Chat zu ändern, wobei `<language>` eines von {languages} ist.',
+
+  // Tracking DAOs
+  replyAddInstructions:
+    'Antworte auf diese Nachricht mit der Adresse der DAO oder einem Link zu ihrer Seite, um ihr zu folgen.',
+  replyRemoveInstructions:
+    'Antworte auf diese Nachricht mit der Adresse der DAO oder einem Link zu ihrer Seite, um ihr nicht mehr zu folgen.',
+  notTrackingAny:
+    'Du folgst keinen DAOs.\n\nSende /add{suffix}, um einer DAO zu folgen.',
+  trackingDao:
+    'Alles klar! Ich benachrichtige dich, wenn es neue Vorschläge in {dao} gibt.\n\nSende `/remove{suffix} {address}`, um ihr nicht mehr zu folgen.',
+  alreadyTrackingDao:
+    'Du folgst {dao} bereits! Ich benachrichtige dich, wenn es neue Vorschläge gibt.\n\nSende `/remove{suffix} {address}`, um ihr nicht mehr zu folgen.',
+  untrackedDao:
+    'Ok, du folgst {dao} nicht mehr.\n\nSende `/add{suffix} {address}`, um ihr wieder zu folgen.',
+  notTrackingDao:
+    'Du folgst {dao} nicht.\n\nSende `/add{suffix} {address}`, um ihr zu folgen.',
+  unknownDao:
+    'Ich erkenne die angegebene DAO-Adresse oder den Link nicht. Versuche es erneut mit der URL aus deinem Browser.',
+  unknownDaoReply:
+    'Ich erkenne die angegebene DAO-Adresse oder den Link nicht. Antworte auf die ursprüngliche Nachricht mit der URL aus deinem Browser.',
+  bulkAddTooMany: 'Du kannst bis zu {max} DAOs auf einmal hinzufügen.',
+  bulkRemoveTooMany: 'Du kannst bis zu {max} DAOs auf einmal entfernen.',
+  bulkNowTracking: 'Jetzt verfolgt',
+  bulkAlreadyTracking: 'Bereits verfolgt',
+  bulkNoLongerTracking: 'Nicht mehr verfolgt',
+  bulkNotTracking: 'Nicht verfolgt',
+  bulkUnknown: 'Nicht erkannt',
+  bulkUpdated: 'Einstellungen aktualisiert für',
+  bulkNotLoaded: 'Konnte nicht geladen werden',
+  trackingList: 'Du folgst diesen DAOs:\n\n{list}',
+  trackingListIn: 'Du folgst diesen DAOs in {chat}:\n\n{list}',
+  buttonRemove: 'Entfernen',
+
+  // Settings
+  everyDaoTrackedHere: 'alle hier verfolgten DAOs',
+  everyDaoTrackedHereStart: 'Alle hier verfolgten DAOs',
+  anyDaoTrackedHere: 'einer hier verfolgten DAO',
+  settingsList:
+    'Für die DAOs, denen du folgst, werde ich:\n\n{list}\n\n{usage}',
+  settingUpdated: 'Alles klar! Für {dao} werde ich {setting}.',
+  registrationSettings:
+    'Für {dao} werde ich:\n\n{settings}\n\nSende {commands}, um das zu ändern.',
+  eventsSetting: 'dich über {events} benachrichtigen',
+  updateModeSetting: '{mode}, wenn sich der Status eines Vorschlags ändert',
+  muteSetting: '{mute} bleiben',
+  eventsAll: 'alle Ereignisse',
+  eventsDefault: 'alle Ereignisse außer Stimmen',
+  eventsNone: 'keine Ereignisse',
+  eventsList:
+    'Du wirst über diese Ereignisse benachrichtigt:\n\n{list}\n\n{usage}',
+  eventsUpdated: 'Alles klar! Du wirst über {events} in {dao} benachrichtigt.',
+  updateModeEdit: 'die ursprüngliche Nachricht zum Vorschlag bearbeiten',
+  updateModeReply: 'auf die ursprüngliche Nachricht zum Vorschlag antworten',
+  updateModeNew: 'eine neue Nachricht senden',
+  updatesList:
+    'Wenn sich der Status eines Vorschlags ändert, werde ich:\n\n{list}\n\n{usage}',
+  updatesUpdated:
+    'Alles klar! Wenn sich der Status eines Vorschlags in {dao} ändert, werde ich {mode}.',
+  remindersOff: 'keine Erinnerungen senden',
+  remindersOne: 'dich 1 Stunde vor Ende der Abstimmung erinnern',
+  remindersOther: 'dich {hours} Stunden vor Ende der Abstimmung erinnern',
+  remindersList:
+    'Ich erinnere dich vor Ende der Abstimmung:\n\n{list}\n\n{usage}',
+  votesAll: 'dich über alle Stimmen benachrichtigen',
+  votesMinimum:
+    'dich über Stimmen mit mindestens {percent}% der Stimmkraft benachrichtigen',
+  votesList: 'Wenn eine Stimme abgegeben wird, werde ich:\n\n{list}\n\n{usage}',
+  digestOff: 'Benachrichtigungen sofort senden',
+  digestDaily:
+    'eine tägliche Zusammenfassung statt einzelner Benachrichtigungen senden',
+  digestWeekly:
+    'eine wöchentliche Zusammenfassung statt einzelner Benachrichtigungen senden',
+  notMuted: 'nicht stummgeschaltet',
+  mutedIndefinitely: 'stummgeschaltet, bis du sie wieder aktivierst',
+  mutedUntil: 'stummgeschaltet bis {time} UTC',
+  muteList:
+    'Für die DAOs, denen du folgst, sind Benachrichtigungen:\n\n{list}\n\n{usage}',
+  muteUpdated:
+    'Alles klar! {dao}: {mute}. Sende `/unmute{suffix}{address}`, um sie wieder zu aktivieren.',
+  unmuteUpdated:
+    'Alles klar! Ich sende wieder Benachrichtigungen für {dao}, und die verpassten in den nächsten 15 Minuten.',
+  mutedDao:
+    '{name} stummgeschaltet. Ich überspringe ihre Benachrichtigungen, bis du /unmute{suffix} {address} sendest.',
+  quietHoursOff: 'Ruhezeiten sind aus.',
+  quietHoursHold:
+    'Ruhezeiten sind von {start} bis {end} ({timeZone}). Währenddessen halte ich Nachrichten zurück und sende sie, wenn die Ruhezeiten enden.',
+  quietHoursSilent:
+    'Ruhezeiten sind von {start} bis {end} ({timeZone}). Währenddessen sende ich Nachrichten ohne Benachrichtigungston.',
+  quietHoursTurnedOff:
+    'Alles klar! Ruhezeiten sind aus. Zurückgehaltene Nachrichten werden innerhalb von 15 Minuten gesendet.',
+  quietHoursUpdated: 'Alles klar! {quietHours}',
+  filtersNone: 'dich über jeden Vorschlag benachrichtigen',
+  filtersInclude:
+    'dich nur über Vorschläge benachrichtigen, die zu {include} passen',
+  filtersExclude:
+    'dich nicht über Vorschläge benachrichtigen, die zu {exclude} passen',
+  filtersIncludeExclude:
+    'dich nur über Vorschläge benachrichtigen, die zu {include} passen, außer solchen, die zu {exclude} passen',
+  filtersOr: ' oder ',
+  filtersTooMany:
+    'Jede DAO kann höchstens {max} Filter haben. Lösche sie, um neu anzufangen.',
+  filterEmpty: 'Filter dürfen nicht leer sein.',
+  filterTooLong: 'Filter dürfen höchstens {max} Zeichen lang sein.',
+  filterInvalidFlags:
+    'Filter mit regulären Ausdrücken können nur die Flags i, m, s und u verwenden.',
+  filterInvalidRegex: 'Ungültiger regulärer Ausdruck: {error}',
+  filterSlowRegex:
+    'Filter mit regulären Ausdrücken können keine Gruppe wiederholen, die sich selbst wiederholt oder Alternativen hat, wie (a+)+, und keine Rückverweise verwenden.',
+  templateList:
+    'Nachrichten in diesem Chat beginnen mit:\n\n{list}\n\nBeschreibungen von Vorschlägen werden nach {length} Zeichen abgeschnitten.\n\n{usage}',
+  templateDefault: '(Standard)',
+  templateUpdated: 'Alles klar! Die Nachricht {name} beginnt mit: {template}',
+  templateTooLong: 'Vorlagen dürfen höchstens {max} Zeichen lang sein.',
+  templateUnknownPlaceholders:
+    'Die Nachricht {name} hat diese Platzhalter nicht: {placeholders}.',
+  descriptionLengthOff:
+    'Alles klar! Ich lasse Beschreibungen von Vorschlägen weg.',
+  descriptionLengthUpdated:
+    'Alles klar! Ich schneide Beschreibungen von Vorschlägen nach {length} Zeichen ab.',
+  languageCurrent: 'Ich spreche {language} in diesem Chat.\n\n{usage}',
+  languageUpdated: 'Alles klar! Ich spreche {language} in diesem Chat.',
+
+  // Managing chats from a private chat
+  pickerNote:
+    'Ich liste nur Gruppen und Kanäle auf, in denen ich bin und in denen du Admin bist.',
+  pickerThisChat: 'Dieser Chat',
+  pickerWhichTopic: 'Welches Thema?',
+  topicGeneral: 'Allgemein',
+  topicNumber: 'Thema {id}',
+  thisChat: 'diesen Chat',
+  anotherChat: 'einen anderen Chat',
+  chatTopicNumber: '{title} (Thema {id})',
+  manageWhich:
+    'Du verwaltest {chat}. Welchen Chat möchtest du von hier aus verwalten? {note}',
+  manageOtherChat:
+    'Du verwaltest jetzt {chat} von hier aus. Befehle, die du mir hier sendest, gelten dort. Sende /manage, um zurückzuwechseln.',
+  manageThisChat: 'Du verwaltest wieder diesen Chat.',
+  manageFromPrivateChat:
+    '{link} und sende /manage, um diesen Chat aus einem privaten Chat zu verwalten.',
+  manageLink: 'Schreib mir',
+  manageNoLongerAdmin:
+    'Du bist kein Admin des Chats mehr, den du verwaltet hast, daher gelten Befehle wieder für diesen Chat. Sende /manage, um einen anderen Chat auszuwählen.',
+  trackWhich: 'Welcher Chat soll {dao} folgen? {note}',
+  trackUnknownDao: 'Ich erkenne die DAO in diesem Link nicht.',
+  trackOpenLinkAgain: 'Öffne den Link zur DAO erneut, um ihr zu folgen.',
+  trackedIn:
+    'Alles klar! Ich benachrichtige {chat}, wenn es neue Vorschläge in {dao} gibt.',
+  alreadyTrackingIn: '{dao} wird in {chat} bereits verfolgt.',
+  notAdminOfChat: 'Du bist kein Admin dieses Chats.',
+  onlyAdmins: 'Nur Admins oder Eigentümer können das tun.',
+  noLongerTrackingThis: 'Du folgst dieser DAO nicht mehr.',
+  noLongerTrackingName: 'Du folgst {name} nicht mehr.',
+
+  // Export and import
+  exportCaption:
+    'Sende diese Datei mit /import{suffix} in einem anderen Chat oder Thema, um denselben DAOs mit denselben Einstellungen zu folgen.',
+  replyImportInstructions:
+    'Antworte auf diese Nachricht mit einer Datei von /export, um denselben DAOs mit denselben Einstellungen zu folgen.',
+  importNotExport: 'Diese Datei stammt nicht von /export.',
+  importNewerVersion:
+    'Diese Datei stammt nicht von /export oder von einer neueren Version von mir.',
+  importTooMany: 'Ich kann bis zu {max} DAOs auf einmal importieren.',
+  importInvalidDao: 'DAO {index} in dieser Datei hat ungültige Einstellungen.',
+  importInvalidTemplates: 'Die Vorlagen in dieser Datei sind ungültig.',
+  importInvalidDescriptionLength:
+    'Die Beschreibungslänge in dieser Datei ist ungültig.',
+  importTooBig: 'Diese Datei ist zu groß, um von /export zu stammen.',
+  importDownloadFailed:
+    'Ich konnte diese Datei nicht herunterladen. Bitte versuche es erneut.',
+
+  unexpectedError:
+    'Ein unerwarteter Fehler ist aufgetreten. Bitte versuche es erneut oder kontaktiere das Team.',
+
+  // Notifications
+  headerProposalCreated: '{{proposal}} ist in {{dao}} zur Abstimmung offen.',
+  headerProposalExecuted:
+    '{{proposal}} in {{dao}} wurde angenommen und ausgeführt.',
+  headerProposalExecutionFailed:
+    '{{proposal}} in {{dao}} wurde angenommen, konnte aber nicht ausgeführt werden.',
+  headerProposalClosed:
+    '{{proposal}} in {{dao}} wurde abgelehnt und geschlossen.',
+  headerProposalVetoed:
+    '{{proposal}} in {{dao}} wurde von {{vetoer}} mit einem Veto belegt.',
+  headerProposalVetoTimelock:
+    '{{proposal}} in {{dao}} wurde angenommen und kann bis {{timelockEnd}} von {{vetoer}} mit einem Veto belegt werden.',
+  headerVoteCast:
+    '{{voter}} hat bei {{proposal}} in {{dao}} mit {{votingPower}} der Stimmkraft {{vote}} gestimmt.',
+  headerReminder:
+    'Die Abstimmung über {{proposal}} in {{dao}} endet in {{timeLeft}}.',
+  proposalLabel: 'Vorschlag {id}',
+  outcomeLabel: 'Ergebnis:',
+  updateLabel: 'Update:',
+  statusExecuted: 'wurde angenommen und ausgeführt',
+  statusExecutionFailed:
+    'wurde angenommen, konnte aber nicht ausgeführt werden',
+  statusClosed: 'wurde abgelehnt und geschlossen',
+  statusVetoed: 'wurde mit einem Veto belegt',
+  statusVetoTimelock: 'wurde angenommen und kann mit einem Veto belegt werden',
+  defaultVetoer: 'der vetoberechtigten Stelle',
+  defaultTimelockEnd: 'zum Ende der Sperrfrist',
+  timeLeftLessThanHour: 'weniger als einer Stunde',
+  timeLeftOne: '1 Stunde',
+  timeLeftOther: '{hours} Stunden',
+  buttonViewProposal: 'Vorschlag ansehen',
+  buttonMuteDao: 'Diese DAO stummschalten',
+  digestTitleDaily: 'Deine tägliche Zusammenfassung',
+  digestTitleWeekly: 'Deine wöchentliche Zusammenfassung',
+  digestNew: 'Neu',
+  digestPassed: 'Angenommen',
+  digestFailed: 'Fehlgeschlagen',
+  digestVetoTimelock: 'In der Veto-Sperrfrist',
+  digestVetoed: 'Mit Veto belegt',
+  digestClosed: 'Geschlossen',
+  digestMoreLines: '... und {count} weitere Zeilen',
+}
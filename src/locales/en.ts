@@ -0,0 +1,255 @@
+// English messages, which every other language falls back to.
+//
+// `{name}` placeholders are replaced with values, which are escaped. Text can
+// be marked up as `code`, *bold*, and _italic_. Everything else is escaped for
+// MarkdownV2, so do not escape it here. Header templates use `{{variable}}`
+// placeholders instead, since chats can customize them.
+export const en = {
+  // Help
+  helpIntro: "Here's how to use me:",
+  helpAdd: 'start tracking a DAO',
+  helpRemove: 'stop tracking a DAO',
+  helpList: 'list your tracked DAOs',
+  helpEvents: 'choose which events to be notified about',
+  helpUpdates: 'choose how to be notified about proposal status changes',
+  helpReminders: 'choose when to be reminded before voting closes',
+  helpVotes: 'choose how much voting power a vote needs to notify you',
+  helpDigest:
+    'get a daily or weekly summary instead of individual notifications',
+  helpMute: 'pause notifications from a DAO',
+  helpUnmute: 'resume notifications from a DAO',
+  helpQuiet: 'set quiet hours for this chat',
+  helpFilters: 'only get proposals matching keywords or patterns',
+  helpTemplate: 'customize notification messages',
+  helpLanguage: 'choose the language I speak in this chat',
+  helpManage: 'manage a group or channel from a private chat',
+  helpExport: 'download the tracked DAOs and settings as a file',
+  helpImport: 'track the DAOs and settings from an exported file',
+  helpHelp: 'see this message again',
+  welcomeGroup:
+    "Hello! I'll send a message when there are new proposals in DAOs you track. {help}\n\n_Only admins or owners can use the commands above_.",
+  welcomePrivate:
+    "Hello! I'll send a message when there are new proposals in DAOs you track. You can add me to group chats to track proposals with others, or just use me in private. To use me in a channel, add me as an admin and post the commands there. {help}",
+
+  // Usage of settings commands
+  eventsUsage:
+    'Send `/events{suffix} [DAO] <events>` to choose which events to be notified about, where `<events>` is one or more of {events}, or `all`. Votes are off unless you choose them. Leave out the DAO to update every DAO tracked here.',
+  updatesUsage:
+    'Send `/updates{suffix} [DAO] <mode>` to choose how to be notified when a proposal passes, fails, or closes, where `<mode>` is one of {modes}. Leave out the DAO to update every DAO tracked here.',
+  remindersUsage:
+    'Send `/reminders{suffix} [DAO] <hours>` to be reminded that many hours before voting closes on a proposal, or `/reminders{suffix} [DAO] off` to turn reminders off. Leave out the DAO to update every DAO tracked here.',
+  digestUsage:
+    'Send `/digest{suffix} [DAO] daily` or `/digest{suffix} [DAO] weekly` to get one summary message per day or week instead of individual notifications, or `/digest{suffix} [DAO] off` to get notifications as they happen. Leave out the DAO to update every DAO tracked here.',
+  muteUsage:
+    'Send `/mute{suffix} <DAO> [duration]` to pause notifications from a DAO without losing its settings, for a duration like `8h`, `2d`, or `1w`, or until you unmute it. Notifications you miss are sent when a mute ends within a week, and dropped during longer mutes. Send `/mute{suffix} all [duration]` to mute every DAO tracked here, and `/unmute{suffix} [DAO]` to unmute one or every DAO.',
+  quietUsage:
+    'Send `/quiet{suffix} <start> <end> [time zone] [hold|silent]` to set quiet hours, like `/quiet{suffix} 22:00 08:00 Europe/Berlin`. The time zone defaults to UTC. During quiet hours, I hold messages until they end, or with `silent`, send them without a notification sound. Send `/quiet{suffix} off` to turn them off. Quiet hours apply to every topic in this chat.',
+  filtersUsage:
+    "Send `/filters{suffix} <DAO> include <keyword>` to only be notified about proposals with that keyword in their title or description, or `/filters{suffix} <DAO> exclude <keyword>` to never be notified about them. Use a regex like `/payroll \\d+/i` instead of a keyword to match a pattern. Send `/filters{suffix} <DAO> clear` to remove a DAO's filters. Proposals must match one of the include filters, if there are any, and none of the exclude filters.",
+  votesUsage:
+    'Send `/votes{suffix} [DAO] <percent>` to only be notified about votes cast with at least that percent of the voting power. Use `/events{suffix}` to turn vote notifications on or off. Leave out the DAO to update every DAO tracked here.',
+  templateUsage:
+    'Send `/template{suffix} <message> <header>` to customize the first line of a message, where `<message>` is one of {templates}. Use placeholders like `{{proposal}}` and `{{dao}}` to fill in details. Send `/template{suffix} <message> reset` to restore the default. Send `/template{suffix} length <characters>` to cut off proposal descriptions after that many characters, `0` to leave them out, or `reset` to restore the default. Templates apply to every topic in this chat.',
+  languageUsage:
+    'Send `/language{suffix} <language>` to change the language of my replies and notifications in this chat, where `<language>` is one of {languages}.',
+
+  // Tracking DAOs
+  replyAddInstructions:
+    "Reply to this message with the DAO's address or a link to its page to start tracking it.",
+  replyRemoveInstructions:
+    "Reply to this message with the DAO's address or a link to its page to stop tracking it.",
+  notTrackingAny:
+    "You're not tracking any DAOs.\n\nSend /add{suffix} to start tracking a DAO.",
+  trackingDao:
+    "Got it! I'll notify you when there are new proposals in {dao}.\n\nSend `/remove{suffix} {address}` to stop tracking it.",
+  alreadyTrackingDao:
+    "You're already tracking {dao}! I'll notify you when there are new proposals.\n\nSend `/remove{suffix} {address}` to stop tracking it.",
+  untrackedDao:
+    "Ok, you're no longer tracking {dao}.\n\nSend `/add{suffix} {address}` to track it again.",
+  notTrackingDao:
+    "You're not tracking {dao}.\n\nSend `/add{suffix} {address}` to track it.",
+  unknownDao:
+    "I don't recognize the DAO address or link provided. Try again with the URL copied from your browser.",
+  unknownDaoReply:
+    "I don't recognize the DAO address or link provided. Try replying to the original message with the URL copied from your browser.",
+  bulkAddTooMany: 'You can add up to {max} DAOs at once.',
+  bulkRemoveTooMany: 'You can remove up to {max} DAOs at once.',
+  bulkNowTracking: 'Now tracking',
+  bulkAlreadyTracking: 'Already tracking',
+  bulkNoLongerTracking: 'No longer tracking',
+  bulkNotTracking: 'Not tracking',
+  bulkUnknown: "I don't recognize",
+  bulkUpdated: 'Updated the settings of',
+  bulkNotLoaded: "I couldn't load",
+  trackingList: "You're tracking the following DAOs:\n\n{list}",
+  trackingListIn: "You're tracking the following DAOs in {chat}:\n\n{list}",
+  buttonRemove: 'Remove',
+
+  // Settings
+  everyDaoTrackedHere: 'every DAO tracked here',
+  everyDaoTrackedHereStart: 'Every DAO tracked here',
+  anyDaoTrackedHere: 'any DAO tracked here',
+  settingsList: "For the DAOs you track, I'll:\n\n{list}\n\n{usage}",
+  settingUpdated: "Got it! For {dao}, I'll {setting}.",
+  registrationSettings:
+    "For {dao}, I'll:\n\n{settings}\n\nSend {commands} to change these.",
+  eventsSetting: 'notify you about {events}',
+  updateModeSetting: "{mode} when a proposal's status changes",
+  muteSetting: 'stay {mute}',
+  eventsAll: 'all events',
+  eventsDefault: 'all events except votes',
+  eventsNone: 'no events',
+  eventsList:
+    "You'll be notified about the following events:\n\n{list}\n\n{usage}",
+  eventsUpdated: "Got it! You'll be notified about {events} in {dao}.",
+  updateModeEdit: 'edit the original proposal message',
+  updateModeReply: 'reply to the original proposal message',
+  updateModeNew: 'send a new message',
+  updatesList: "When a proposal's status changes, I'll:\n\n{list}\n\n{usage}",
+  updatesUpdated:
+    "Got it! When a proposal's status changes in {dao}, I'll {mode}.",
+  remindersOff: 'not send reminders',
+  remindersOne: 'remind you 1 hour before voting closes',
+  remindersOther: 'remind you {hours} hours before voting closes',
+  remindersList: "I'll remind you before voting closes:\n\n{list}\n\n{usage}",
+  votesAll: 'notify you about all votes',
+  votesMinimum:
+    'notify you about votes with at least {percent}% of the voting power',
+  votesList: "When a vote is cast, I'll:\n\n{list}\n\n{usage}",
+  digestOff: 'send notifications as they happen',
+  digestDaily: 'send a daily digest instead of individual notifications',
+  digestWeekly: 'send a weekly digest instead of individual notifications',
+  notMuted: 'not muted',
+  mutedIndefinitely: 'muted until you unmute it',
+  mutedUntil: 'muted until {time} UTC',
+  muteList: 'For the DAOs you track, notifications are:\n\n{list}\n\n{usage}',
+  muteUpdated:
+    'Got it! {dao} is {mute}. Send `/unmute{suffix}{address}` to unmute it.',
+  unmuteUpdated:
+    "Got it! I'll send notifications for {dao} again, and the ones you missed in the next 15 minutes.",
+  mutedDao:
+    'Muted {name}. I will skip its notifications until you send /unmute{suffix} {address}.',
+  quietHoursOff: 'Quiet hours are off.',
+  quietHoursHold:
+    'Quiet hours are {start} to {end} ({timeZone}). During them, I hold messages and send them when quiet hours end.',
+  quietHoursSilent:
+    'Quiet hours are {start} to {end} ({timeZone}). During them, I send messages without a notification sound.',
+  quietHoursTurnedOff:
+    'Got it! Quiet hours are off. Messages held during them will be sent within 15 minutes.',
+  quietHoursUpdated: 'Got it! {quietHours}',
+  filtersNone: 'notify you about every proposal',
+  filtersInclude: 'only notify you about proposals matching {include}',
+  filtersExclude: 'not notify you about proposals matching {exclude}',
+  filtersIncludeExclude:
+    'only notify you about proposals matching {include}, except those matching {exclude}',
+  filtersOr: ' or ',
+  filtersTooMany:
+    'Each DAO can have at most {max} filters. Clear them to start over.',
+  filterEmpty: 'Filters cannot be empty.',
+  filterTooLong: 'Filters can be at most {max} characters long.',
+  filterInvalidFlags: 'Regex filters can only use the i, m, s, and u flags.',
+  filterInvalidRegex: 'Invalid regex: {error}',
+  filterSlowRegex:
+    'Regex filters cannot repeat a group that repeats or has alternatives, like (a+)+, or use backreferences.',
+  templateList:
+    'Messages in this chat start with:\n\n{list}\n\nProposal descriptions are cut off after {length} characters.\n\n{usage}',
+  templateDefault: '(default)',
+  templateUpdated: 'Got it! The {name} message will start with: {template}',
+  templateTooLong: 'Templates can be at most {max} characters long.',
+  templateUnknownPlaceholders:
+    "The {name} message doesn't have these placeholders: {placeholders}.",
+  descriptionLengthOff: "Got it! I'll leave out proposal descriptions.",
+  descriptionLengthUpdated:
+    "Got it! I'll cut off proposal descriptions after {length} characters.",
+  languageCurrent: 'I speak {language} in this chat.\n\n{usage}',
+  languageUpdated: "Got it! I'll speak {language} in this chat.",
+
+  // Managing chats from a private chat
+  pickerNote: "I only list groups and channels I'm in where you're an admin.",
+  pickerThisChat: 'This chat',
+  pickerWhichTopic: 'Which topic?',
+  topicGeneral: 'General',
+  topicNumber: 'Topic {id}',
+  thisChat: 'this chat',
+  anotherChat: 'another chat',
+  chatTopic: '{title} ({topic})',
+  chatTopicNumber: '{title} (topic {id})',
+  manageWhich:
+    "You're managing {chat}. Which chat do you want to manage from here? {note}",
+  manageOtherChat:
+    "You're now managing {chat} from here. Commands you send me here apply there. Send /manage to switch back.",
+  manageThisChat: "You're managing this chat again.",
+  manageFromPrivateChat:
+    '{link} and send /manage to manage this chat from a private chat.',
+  manageLink: 'Message me',
+  manageNoLongerAdmin:
+    "You're no longer an admin of the chat you were managing, so commands apply to this chat again. Send /manage to pick another chat.",
+  trackWhich: 'Which chat should track {dao}? {note}',
+  trackUnknownDao: "I don't recognize the DAO in this link.",
+  trackOpenLinkAgain: 'Open the link to the DAO again to track it.',
+  trackedIn:
+    "Got it! I'll notify {chat} when there are new proposals in {dao}.",
+  alreadyTrackingIn: 'Already tracking {dao} in {chat}.',
+  notAdminOfChat: "You're not an admin of that chat.",
+  onlyAdmins: 'Only admins or owners can do that.',
+  noLongerTrackingThis: "You're no longer tracking this DAO.",
+  noLongerTrackingName: "You're no longer tracking {name}.",
+
+  // Export and import
+  exportCaption:
+    'Send this file with /import{suffix} in another chat or topic to track the same DAOs with the same settings.',
+  replyImportInstructions:
+    'Reply to this message with a file from /export to track the same DAOs with the same settings.',
+  importNotExport: "This file isn't from /export.",
+  importNewerVersion:
+    "This file isn't from /export, or is from a newer version of me.",
+  importTooMany: 'I can import up to {max} DAOs at once.',
+  importInvalidDao: 'DAO {index} in this file has invalid settings.',
+  importInvalidTemplates: 'The templates in this file are invalid.',
+  importInvalidDescriptionLength:
+    'The description length in this file is invalid.',
+  importTooBig: 'This file is too big to be from /export.',
+  importDownloadFailed: "I couldn't download this file. Please try again.",
+
+  unexpectedError:
+    'An unexpected error ocurred. Please try again or contact the team for support.',
+
+  // Notifications
+  headerProposalCreated: '{{proposal}} is open for voting in {{dao}}.',
+  headerProposalExecuted: '{{proposal}} in {{dao}} was passed and executed.',
+  headerProposalExecutionFailed:
+    '{{proposal}} in {{dao}} was passed but failed to execute.',
+  headerProposalClosed: '{{proposal}} in {{dao}} was rejected and closed.',
+  headerProposalVetoed: '{{proposal}} in {{dao}} was vetoed by {{vetoer}}.',
+  headerProposalVetoTimelock:
+    '{{proposal}} in {{dao}} was passed and can be vetoed by {{vetoer}} until {{timelockEnd}}.',
+  headerVoteCast:
+    '{{voter}} voted {{vote}} on {{proposal}} in {{dao}} with {{votingPower}} of the voting power.',
+  headerReminder: 'Voting closes in {{timeLeft}} for {{proposal}} in {{dao}}.',
+  proposalLabel: 'Proposal {id}',
+  outcomeLabel: 'Outcome:',
+  updateLabel: 'Update:',
+  statusExecuted: 'was passed and executed',
+  statusExecutionFailed: 'was passed but failed to execute',
+  statusClosed: 'was rejected and closed',
+  statusVetoed: 'was vetoed',
+  statusVetoTimelock: 'was passed and can be vetoed',
+  defaultVetoer: 'the vetoer',
+  defaultTimelockEnd: 'the timelock ends',
+  timeLeftLessThanHour: 'less than an hour',
+  timeLeftOne: '1 hour',
+  timeLeftOther: '{hours} hours',
+  buttonViewProposal: 'View proposal',
+  buttonMuteDao: 'Mute this DAO',
+  digestTitleDaily: 'Your daily digest',
+  digestTitleWeekly: 'Your weekly digest',
+  digestNew: 'New',
+  digestPassed: 'Passed',
+  digestFailed: 'Failed',
+  digestVetoTimelock: 'In veto timelock',
+  digestVetoed: 'Vetoed',
+  digestClosed: 'Closed',
+  digestMoreLines: '... and {count} more lines',
+}
+
+export type MessageKey = keyof typeof en
@@ -0,0 +1,264 @@
+import { Catalog } from '.'
+
+// Spanish messages. See `en.ts` for the placeholder and markup syntax.
+export const es: Catalog = {
+  // Help
+  helpIntro: 'Así es como puedes usarme:',
+  helpAdd: 'seguir una DAO',
+  helpRemove: 'dejar de seguir una DAO',
+  helpList: 'ver las DAO que sigues',
+  helpEvents: 'elegir de qué eventos recibir notificaciones',
+  helpUpdates: 'elegir cómo recibir los cambios de estado de las propuestas',
+  helpReminders:
+    'elegir cuándo recibir un recordatorio antes del cierre de la votación',
+  helpVotes: 'elegir cuánto poder de voto necesita un voto para notificarte',
+  helpDigest:
+    'recibir un resumen diario o semanal en lugar de notificaciones individuales',
+  helpMute: 'pausar las notificaciones de una DAO',
+  helpUnmute: 'reanudar las notificaciones de una DAO',
+  helpQuiet: 'configurar horas de silencio en este chat',
+  helpFilters:
+    'recibir solo propuestas que coincidan con palabras clave o patrones',
+  helpTemplate: 'personalizar los mensajes de notificación',
+  helpLanguage: 'elegir el idioma que hablo en este chat',
+  helpManage: 'administrar un grupo o canal desde un chat privado',
+  helpExport: 'descargar las DAO seguidas y su configuración en un archivo',
+  helpImport: 'seguir las DAO y la configuración de un archivo exportado',
+  helpHelp: 'ver este mensaje de nuevo',
+  welcomeGroup:
+    '¡Hola! Enviaré un mensaje cuando haya nuevas propuestas en las DAO que sigas. {help}\n\n_Solo los administradores o propietarios pueden usar los comandos anteriores_.',
+  welcomePrivate:
+    '¡Hola! Enviaré un mensaje cuando haya nuevas propuestas en las DAO que sigas. Puedes añadirme a grupos para seguir propuestas con otras personas, o simplemente usarme en privado. Para usarme en un canal, añádeme como administrador y publica los comandos allí. {help}',
+
+  // Usage of settings commands
+  eventsUsage:
+    'Envía `/events{suffix} [DAO] <events>` para elegir de qué eventos recibir notificaciones, donde `<events>` es uno o más de {events}, o `all`. Los votos están desactivados a menos que los elijas. Omite la DAO para actualizar todas las DAO que se siguen aquí.',
+  updatesUsage:
+    'Envía `/updates{suffix} [DAO] <mode>` para elegir cómo recibir notificaciones cuando una propuesta se aprueba, falla o se cierra, donde `<mode>` es uno de {modes}. Omite la DAO para actualizar todas las DAO que se siguen aquí.',
+  remindersUsage:
+    'Envía `/reminders{suffix} [DAO] <hours>` para recibir un recordatorio esa cantidad de horas antes de que cierre la votación de una propuesta, o `/reminders{suffix} [DAO] off` para desactivar los recordatorios. Omite la DAO para actualizar todas las DAO que se siguen aquí.',
+  digestUsage:
+    'Envía `/digest{suffix} [DAO] daily` o `/digest{suffix} [DAO] weekly` para recibir un mensaje de resumen por día o por semana en lugar de notificaciones individuales, o `/digest{suffix} [DAO] off` para recibir las notificaciones a medida que ocurren. Omite la DAO para actualizar todas las DAO que se siguen aquí.',
+  muteUsage:
+    'Envía `/mute{suffix} <DAO> [duration]` para pausar las notificaciones de una DAO sin perder su configuración, durante un tiempo como `8h`, `2d` o `1w`, o hasta que la reactives. Te enviaré las notificaciones que te perdiste si el silencio termina en menos de una semana; durante silencios más largos se descartan. Envía `/mute{suffix} all [duration]` para silenciar todas las DAO que se siguen aquí, y `/unmute{suffix} [DAO]` para reactivar una o todas las DAO.',
+  quietUsage:
+    'Envía `/quiet{suffix} <start> <end> [time zone] [hold|silent]` para configurar horas de silencio, como `/quiet{suffix} 22:00 08:00 Europe/Madrid`. La zona horaria predeterminada es UTC. Durante las horas de silencio, retengo los mensajes hasta que terminan, o con `silent`, los envío sin sonido de notificación. Envía `/quiet{suffix} off` para desactivarlas. Las horas de silencio se aplican a todos los temas de este chat.',
+  filtersUsage:
+    'Envía `/filters{suffix} <DAO> include <keyword>` para recibir solo propuestas con esa palabra clave en su título o descripción, o `/filters{suffix} <DAO> exclude <keyword>` para no recibirlas nunca. Usa una expresión regular como `/payroll \\d+/i` en lugar de una palabra clave para buscar un patrón. Envía `/filters{suffix} <DAO> clear` para eliminar los filtros de una DAO. Las propuestas deben coincidir con uno de los filtros de inclusión, si hay alguno, y con ninguno de los filtros de exclusión.',
+  votesUsage:
+    'Envía `/votes{suffix} [DAO] <percent>` para recibir solo los votos emitidos con al menos ese porcentaje del poder de voto. Usa `/events{suffix}` para activar o desactivar las notificaciones de votos. Omite la DAO para actualizar todas las DAO que se siguen aquí.',
+  templateUsage:
+    'Envía `/template{suffix} <message> <header>` para personalizar la primera línea de un mensaje, donde `<message>` es uno de {templates}. Usa marcadores como `{{proposal}}` y `{{dao}}` para completar los detalles. Envía `/template{suffix} <message> reset` para restaurar el valor predeterminado. Envía `/template{suffix} length <characters>` para recortar las descripciones de las propuestas tras esa cantidad de caracteres, `0` para omitirlas, o `reset` para restaurar el valor predeterminado. Las plantillas se aplican a todos los temas de este chat.',
+  languageUsage:
+    'Envía `/language{suffix} <language>` para cambiar el idioma de mis respuestas y notificaciones en este chat, donde `<language>` es uno de {languages}.',
+
+  // Tracking DAOs
+  replyAddInstructions:
+    'Responde a este mensaje con la dirección de la DAO o un enlace a su página para empezar a seguirla.',
+  replyRemoveInstructions:
+    'Responde a este mensaje con la dirección de la DAO o un enlace a su página para dejar de seguirla.',
+  notTrackingAny:
+    'No sigues ninguna DAO.\n\nEnvía /add{suffix} para empezar a seguir una DAO.',
+  trackingDao:
+    '¡Entendido! Te avisaré cuando haya nuevas propuestas en {dao}.\n\nEnvía `/remove{suffix} {address}` para dejar de seguirla.',
+  alreadyTrackingDao:
+    '¡Ya sigues {dao}! Te avisaré cuando haya nuevas propuestas.\n\nEnvía `/remove{suffix} {address}` para dejar de seguirla.',
+  untrackedDao:
+    'Vale, ya no sigues {dao}.\n\nEnvía `/add{suffix} {address}` para volver a seguirla.',
+  notTrackingDao:
+    'No sigues {dao}.\n\nEnvía `/add{suffix} {address}` para seguirla.',
+  unknownDao:
+    'No reconozco la dirección o el enlace de la DAO. Inténtalo de nuevo con la URL copiada de tu navegador.',
+  unknownDaoReply:
+    'No reconozco la dirección o el enlace de la DAO. Intenta responder al mensaje original con la URL copiada de tu navegador.',
+  bulkAddTooMany: 'Puedes añadir hasta {max} DAO a la vez.',
+  bulkRemoveTooMany: 'Puedes eliminar hasta {max} DAO a la vez.',
+  bulkNowTracking: 'Ahora sigues',
+  bulkAlreadyTracking: 'Ya sigues',
+  bulkNoLongerTracking: 'Ya no sigues',
+  bulkNotTracking: 'No sigues',
+  bulkUnknown: 'No reconozco',
+  bulkUpdated: 'Se actualizó la configuración de',
+  bulkNotLoaded: 'No pude cargar',
+  trackingList: 'Sigues las siguientes DAO:\n\n{list}',
+  trackingListIn: 'Sigues las siguientes DAO en {chat}:\n\n{list}',
+  buttonRemove: 'Eliminar',
+
+  // Settings
+  everyDaoTrackedHere: 'todas las DAO que se siguen aquí',
+  everyDaoTrackedHereStart: 'Todas las DAO que se siguen aquí',
+  anyDaoTrackedHere: 'cualquier DAO que se siga aquí',
+  settingsList: 'Para las DAO que sigues, voy a:\n\n{list}\n\n{usage}',
+  settingUpdated: '¡Entendido! Para {dao}, voy a {setting}.',
+  registrationSettings:
+    'Para {dao}, voy a:\n\n{settings}\n\nEnvía {commands} para cambiar esto.',
+  eventsSetting: 'notificarte sobre {events}',
+  updateModeSetting: '{mode} cuando cambie el estado de una propuesta',
+  muteSetting: 'mantenerla {mute}',
+  eventsAll: 'todos los eventos',
+  eventsDefault: 'todos los eventos excepto votos',
+  eventsNone: 'ningún evento',
+  eventsList:
+    'Recibirás notificaciones de los siguientes eventos:\n\n{list}\n\n{usage}',
+  eventsUpdated:
+    '¡Entendido! Recibirás notificaciones sobre {events} en {dao}.',
+  updateModeEdit: 'editar el mensaje original de la propuesta',
+  updateModeReply: 'responder al mensaje original de la propuesta',
+  updateModeNew: 'enviar un mensaje nuevo',
+  updatesList:
+    'Cuando cambie el estado de una propuesta, voy a:\n\n{list}\n\n{usage}',
+  updatesUpdated:
+    '¡Entendido! Cuando cambie el estado de una propuesta en {dao}, voy a {mode}.',
+  remindersOff: 'no enviar recordatorios',
+  remindersOne: 'recordártelo 1 hora antes de que cierre la votación',
+  remindersOther: 'recordártelo {hours} horas antes de que cierre la votación',
+  remindersList:
+    'Te recordaré antes de que cierre la votación:\n\n{list}\n\n{usage}',
+  votesAll: 'notificarte sobre todos los votos',
+  votesMinimum:
+    'notificarte sobre los votos con al menos el {percent}% del poder de voto',
+  votesList: 'Cuando se emita un voto, voy a:\n\n{list}\n\n{usage}',
+  digestOff: 'enviar las notificaciones a medida que ocurren',
+  digestDaily:
+    'enviar un resumen diario en lugar de notificaciones individuales',
+  digestWeekly:
+    'enviar un resumen semanal en lugar de notificaciones individuales',
+  notMuted: 'no silenciada',
+  mutedIndefinitely: 'silenciada hasta que la reactives',
+  mutedUntil: 'silenciada hasta {time} UTC',
+  muteList:
+    'Para las DAO que sigues, las notificaciones están:\n\n{list}\n\n{usage}',
+  muteUpdated:
+    '¡Entendido! {dao}: {mute}. Envía `/unmute{suffix}{address}` para reactivarla.',
+  unmuteUpdated:
+    '¡Entendido! Volveré a enviar notificaciones de {dao}, y las que te perdiste en los próximos 15 minutos.',
+  mutedDao:
+    'Se silenció {name}. Omitiré sus notificaciones hasta que envíes /unmute{suffix} {address}.',
+  quietHoursOff: 'Las horas de silencio están desactivadas.',
+  quietHoursHold:
+    'Las horas de silencio son de {start} a {end} ({timeZone}). Durante ellas, retengo los mensajes y los envío cuando terminan.',
+  quietHoursSilent:
+    'Las horas de silencio son de {start} a {end} ({timeZone}). Durante ellas, envío los mensajes sin sonido de notificación.',
+  quietHoursTurnedOff:
+    '¡Entendido! Las horas de silencio están desactivadas. Los mensajes retenidos se enviarán en los próximos 15 minutos.',
+  quietHoursUpdated: '¡Entendido! {quietHours}',
+  filtersNone: 'notificarte sobre todas las propuestas',
+  filtersInclude:
+    'notificarte solo sobre las propuestas que coincidan con {include}',
+  filtersExclude:
+    'no notificarte sobre las propuestas que coincidan con {exclude}',
+  filtersIncludeExclude:
+    'notificarte solo sobre las propuestas que coincidan con {include}, excepto las que coincidan con {exclude}',
+  filtersOr: ' o ',
+  filtersTooMany:
+    'Cada DAO puede tener como máximo {max} filtros. Bórralos para empezar de nuevo.',
+  filterEmpty: 'Los filtros no pueden estar vacíos.',
+  filterTooLong: 'Los filtros pueden tener como máximo {max} caracteres.',
+  filterInvalidFlags:
+    'Los filtros de expresiones regulares solo pueden usar las opciones i, m, s y u.',
+  filterInvalidRegex: 'Expresión regular no válida: {error}',
+  filterSlowRegex:
+    'Los filtros de expresiones regulares no pueden repetir un grupo que se repite o tiene alternativas, como (a+)+, ni usar referencias inversas.',
+  templateList:
+    'Los mensajes de este chat empiezan con:\n\n{list}\n\nLas descripciones de las propuestas se recortan tras {length} caracteres.\n\n{usage}',
+  templateDefault: '(predeterminado)',
+  templateUpdated: '¡Entendido! El mensaje {name} empezará con: {template}',
+  templateTooLong: 'Las plantillas pueden tener como máximo {max} caracteres.',
+  templateUnknownPlaceholders:
+    'El mensaje {name} no tiene estos marcadores: {placeholders}.',
+  descriptionLengthOff:
+    '¡Entendido! Omitiré las descripciones de las propuestas.',
+  descriptionLengthUpdated:
+    '¡Entendido! Recortaré las descripciones de las propuestas tras {length} caracteres.',
+  languageCurrent: 'Hablo {language} en este chat.\n\n{usage}',
+  languageUpdated: '¡Entendido! Hablaré {language} en este chat.',
+
+  // Managing chats from a private chat
+  pickerNote:
+    'Solo muestro los grupos y canales en los que estoy y en los que eres administrador.',
+  pickerThisChat: 'Este chat',
+  pickerWhichTopic: '¿Qué tema?',
+  topicGeneral: 'General',
+  topicNumber: 'Tema {id}',
+  thisChat: 'este chat',
+  anotherChat: 'otro chat',
+  chatTopicNumber: '{title} (tema {id})',
+  manageWhich:
+    'Estás administrando {chat}. ¿Qué chat quieres administrar desde aquí? {note}',
+  manageOtherChat:
+    'Ahora administras {chat} desde aquí. Los comandos que me envíes aquí se aplican allí. Envía /manage para volver.',
+  manageThisChat: 'Vuelves a administrar este chat.',
+  manageFromPrivateChat:
+    '{link} y envía /manage para administrar este chat desde un chat privado.',
+  manageLink: 'Escríbeme',
+  manageNoLongerAdmin:
+    'Ya no eres administrador del chat que estabas administrando, así que los comandos vuelven a aplicarse a este chat. Envía /manage para elegir otro chat.',
+  trackWhich: '¿Qué chat debe seguir {dao}? {note}',
+  trackUnknownDao: 'No reconozco la DAO de este enlace.',
+  trackOpenLinkAgain: 'Abre de nuevo el enlace de la DAO para seguirla.',
+  trackedIn:
+    '¡Entendido! Avisaré en {chat} cuando haya nuevas propuestas en {dao}.',
+  alreadyTrackingIn: 'Ya se sigue {dao} en {chat}.',
+  notAdminOfChat: 'No eres administrador de ese chat.',
+  onlyAdmins: 'Solo los administradores o propietarios pueden hacer eso.',
+  noLongerTrackingThis: 'Ya no sigues esta DAO.',
+  noLongerTrackingName: 'Ya no sigues {name}.',
+
+  // Export and import
+  exportCaption:
+    'Envía este archivo con /import{suffix} en otro chat o tema para seguir las mismas DAO con la misma configuración.',
+  replyImportInstructions:
+    'Responde a este mensaje con un archivo de /export para seguir las mismas DAO con la misma configuración.',
+  importNotExport: 'Este archivo no es de /export.',
+  importNewerVersion:
+    'Este archivo no es de /export, o es de una versión más nueva de mí.',
+  importTooMany: 'Puedo importar hasta {max} DAO a la vez.',
+  importInvalidDao:
+    'La DAO {index} de este archivo tiene una configuración no válida.',
+  importInvalidTemplates: 'Las plantillas de este archivo no son válidas.',
+  importInvalidDescriptionLength:
+    'La longitud de las descripciones de este archivo no es válida.',
+  importTooBig: 'Este archivo es demasiado grande para ser de /export.',
+  importDownloadFailed: 'No pude descargar este archivo. Inténtalo de nuevo.',
+
+  unexpectedError:
+    'Ocurrió un error inesperado. Inténtalo de nuevo o contacta al equipo para obtener ayuda.',
+
+  // Notifications
+  headerProposalCreated: '{{proposal}} está abierta a votación en {{dao}}.',
+  headerProposalExecuted: '{{proposal}} en {{dao}} fue aprobada y ejecutada.',
+  headerProposalExecutionFailed:
+    '{{proposal}} en {{dao}} fue aprobada pero no se pudo ejecutar.',
+  headerProposalClosed: '{{proposal}} en {{dao}} fue rechazada y cerrada.',
+  headerProposalVetoed: '{{proposal}} en {{dao}} fue vetada por {{vetoer}}.',
+  headerProposalVetoTimelock:
+    '{{proposal}} en {{dao}} fue aprobada y {{vetoer}} puede vetarla hasta {{timelockEnd}}.',
+  headerVoteCast:
+    '{{voter}} votó {{vote}} en {{proposal}} de {{dao}} con el {{votingPower}} del poder de voto.',
+  headerReminder:
+    'La votación de {{proposal}} en {{dao}} cierra en {{timeLeft}}.',
+  proposalLabel: 'Propuesta {id}',
+  outcomeLabel: 'Resultado:',
+  updateLabel: 'Actualización:',
+  statusExecuted: 'fue aprobada y ejecutada',
+  statusExecutionFailed: 'fue aprobada pero no se pudo ejecutar',
+  statusClosed: 'fue rechazada y cerrada',
+  statusVetoed: 'fue vetada',
+  statusVetoTimelock: 'fue aprobada y puede ser vetada',
+  defaultVetoer: 'quien puede vetarla',
+  defaultTimelockEnd: 'que termine el bloqueo temporal',
+  timeLeftLessThanHour: 'menos de una hora',
+  timeLeftOne: '1 hora',
+  timeLeftOther: '{hours} horas',
+  buttonViewProposal: 'Ver propuesta',
+  buttonMuteDao: 'Silenciar esta DAO',
+  digestTitleDaily: 'Tu resumen diario',
+  digestTitleWeekly: 'Tu resumen semanal',
+  digestNew: 'Nuevas',
+  digestPassed: 'Aprobadas',
+  digestFailed: 'Fallidas',
+  digestVetoTimelock: 'En periodo de veto',
+  digestVetoed: 'Vetadas',
+  digestClosed: 'Cerradas',
+  digestMoreLines: '... y {count} líneas más',
+}
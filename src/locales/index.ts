@@ -0,0 +1,22 @@
+import { Language } from '../types'
+import { de } from './de'
+import { MessageKey, en } from './en'
+import { es } from './es'
+
+export type { MessageKey } from './en'
+
+// A language's messages. Missing messages fall back to English.
+export type Catalog = Partial<Record<MessageKey, string>>
+
+export const CATALOGS: Record<Language, Catalog> = {
+  [Language.English]: en,
+  [Language.Spanish]: es,
+  [Language.German]: de,
+}
+
+// Each language's name in that language, shown in /language.
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  [Language.English]: 'English',
+  [Language.Spanish]: 'Español',
+  [Language.German]: 'Deutsch',
+}
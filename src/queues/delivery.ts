@@ -0,0 +1,548 @@
+import {
+  ChannelType,
+  ChatSettingsRow,
+  DeliveryErrorKind,
+  DeliveryJob,
+  DeliveryRow,
+  DeliveryStatus,
+  Env,
+  NotifyType,
+  ProposalMessageRow,
+  QuietHoursMode,
+  RegistrationRow,
+  RenderedMessage,
+  ScheduledMessageType,
+  UpdateMode,
+} from '../types'
+import {
+  ChannelResponse,
+  DeliveryChannel,
+  TelegramResponse,
+  TelegramSentMessage,
+  callTelegram,
+  deleteChatRegistrations,
+  discordChannel,
+  getProposalKeyboard,
+  getQuietHoursEnd,
+  getTelegramErrorKind,
+  isParseError,
+  isTopicError,
+  migrateChatRegistrations,
+  wait,
+  webhookChannel,
+} from '../utils'
+
+// Queues accept up to 100 messages per batch, and 256 KB in total.
+const ENQUEUE_BATCH_SIZE = 50
+
+// Telegram allows about 30 messages per second across all chats.
+const SEND_INTERVAL_MS = 35
+// Telegram allows about 20 messages per minute in a group, so defer extra
+// messages for the same group until the next window.
+const MAX_GROUP_MESSAGES_PER_WINDOW = 20
+const GROUP_WINDOW_SECONDS = 60
+
+type QuietHoursSettings = Pick<
+  ChatSettingsRow,
+  'quietHoursStart' | 'quietHoursEnd' | 'timeZone' | 'quietHoursMode'
+>
+
+// Notifications are held through mutes that end within a week, and dropped
+// during longer and indefinite mutes so they do not pile up.
+const MAX_HELD_MUTE_MS = 7 * 24 * 60 * 60 * 1000
+
+const BACKOFF_SECONDS = 5
+const MAX_BACKOFF_SECONDS = 300
+
+// Matches `max_retries` of the delivery queue in wrangler.toml.
+const MAX_RETRIES = 10
+
+// Enqueue delivery jobs in batches.
+export const enqueueDeliveries = async (env: Env, jobs: DeliveryJob[]) => {
+  for (let i = 0; i < jobs.length; i += ENQUEUE_BATCH_SIZE) {
+    await env.DELIVERY_QUEUE.sendBatch(
+      jobs.slice(i, i + ENQUEUE_BATCH_SIZE).map((body) => ({ body }))
+    )
+  }
+}
+
+// Send a notification to a chat, updating the original message if needed. Silent
+// messages are sent without a notification sound.
+export const deliver = async (
+  env: Env,
+  {
+    chainId,
+    dao,
+    proposalId,
+    type,
+    chatId,
+    messageThreadId,
+    updateMode,
+    markdown,
+    plain,
+    url,
+    registrationId,
+    language,
+  }: DeliveryJob,
+  { silent = false }: { silent?: boolean } = {}
+): Promise<TelegramResponse> => {
+  const target = {
+    chat_id: Number(chatId),
+    disable_notification: silent || undefined,
+    link_preview_options: {
+      is_disabled: true,
+    },
+    reply_markup: url
+      ? getProposalKeyboard(url, registrationId, language)
+      : undefined,
+  }
+  const threadTarget = {
+    ...target,
+    message_thread_id: messageThreadId ? Number(messageThreadId) : undefined,
+  }
+
+  // Send one of the message's texts, falling back to plain text if Telegram
+  // cannot parse the MarkdownV2.
+  const sendMessage = async (
+    getText: (message: RenderedMessage) => string,
+    params: Record<string, unknown> = {}
+  ): Promise<{
+    response: TelegramResponse<TelegramSentMessage>
+    isPlain: boolean
+  }> => {
+    const response = await callTelegram<TelegramSentMessage>(
+      env,
+      'sendMessage',
+      {
+        ...threadTarget,
+        ...params,
+        parse_mode: 'MarkdownV2',
+        text: getText(markdown),
+      }
+    )
+
+    if (!response.ok && plain && isParseError(response)) {
+      return {
+        response: await callTelegram<TelegramSentMessage>(env, 'sendMessage', {
+          ...threadTarget,
+          ...params,
+          text: getText(plain),
+        }),
+        isPlain: true,
+      }
+    }
+
+    return { response, isPlain: false }
+  }
+
+  // Look up the original message for this proposal, if one was sent.
+  const original =
+    type !== NotifyType.ProposalCreated && updateMode !== UpdateMode.New
+      ? await env.DB.prepare(
+          'SELECT messageId, text FROM proposal_messages WHERE chainId = ?1 AND dao = ?2 AND proposalId = ?3 AND chatId = ?4 AND messageThreadId IS ?5'
+        )
+          .bind(chainId, dao, proposalId, chatId, messageThreadId)
+          .first<Pick<ProposalMessageRow, 'messageId' | 'text'>>()
+      : null
+
+  if (original && updateMode === UpdateMode.Edit) {
+    const response = await callTelegram(env, 'editMessageText', {
+      ...target,
+      parse_mode: 'MarkdownV2',
+      message_id: original.messageId,
+      text: `${original.text}\n\n${markdown.statusLine}`,
+    })
+    // Fall back to sending a new message if the original cannot be edited,
+    // such as when it was deleted.
+    if (
+      response.ok ||
+      getTelegramErrorKind(response) !== DeliveryErrorKind.Invalid
+    ) {
+      return response
+    }
+  }
+
+  if (original && updateMode === UpdateMode.Reply) {
+    const { response } = await sendMessage(({ replyText }) => replyText, {
+      reply_parameters: {
+        message_id: original.messageId,
+        allow_sending_without_reply: true,
+      },
+    })
+    return response
+  }
+
+  const { response, isPlain } = await sendMessage(({ text }) => text)
+
+  // Remember the original message so status updates can reference it. Plain
+  // text messages cannot be edited with MarkdownV2 status lines, so status
+  // updates for them are sent as new messages.
+  if (type === NotifyType.ProposalCreated && response.ok && !isPlain) {
+    await env.DB.batch([
+      env.DB.prepare(
+        'DELETE FROM proposal_messages WHERE chainId = ?1 AND dao = ?2 AND proposalId = ?3 AND chatId = ?4 AND messageThreadId IS ?5'
+      ).bind(chainId, dao, proposalId, chatId, messageThreadId),
+      env.DB.prepare(
+        'INSERT INTO proposal_messages (chainId, dao, proposalId, chatId, messageThreadId, messageId, text) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)'
+      ).bind(
+        chainId,
+        dao,
+        proposalId,
+        chatId,
+        messageThreadId,
+        response.result.message_id,
+        markdown.text
+      ),
+    ])
+  }
+
+  return response
+}
+
+// Telegram chats, which can get status updates to the original message.
+const telegramChannel: DeliveryChannel = {
+  send: async (env, job, options) => {
+    const response = await deliver(env, job, options)
+    if (response.ok) {
+      return { ok: true }
+    }
+
+    const migrateToChatId = response.parameters?.migrate_to_chat_id
+    return {
+      ok: false,
+      errorCode: response.error_code,
+      description: response.description,
+      kind: getTelegramErrorKind(response),
+      retryAfter: response.parameters?.retry_after,
+      topicOnly: isTopicError(response),
+      migrateToChatId:
+        migrateToChatId !== undefined
+          ? BigInt(migrateToChatId).toString()
+          : undefined,
+    }
+  },
+}
+
+const CHANNELS: Record<ChannelType, DeliveryChannel> = {
+  [ChannelType.Telegram]: telegramChannel,
+  [ChannelType.Discord]: discordChannel,
+  [ChannelType.Webhook]: webhookChannel,
+}
+
+// Update the status of a job's delivery.
+const setDeliveryStatus = async (
+  env: Env,
+  { idempotencyKey, chatId, messageThreadId }: DeliveryJob,
+  status: DeliveryStatus
+) => {
+  await env.DB.prepare(
+    'UPDATE deliveries SET status = ?4, updatedAt = CURRENT_TIMESTAMP WHERE idempotencyKey = ?1 AND chatId = ?2 AND messageThreadId IS ?3'
+  )
+    .bind(idempotencyKey, chatId, messageThreadId, status)
+    .run()
+}
+
+// Record an attempt to send a job.
+const recordDeliveryAttempt = async (
+  env: Env,
+  {
+    idempotencyKey,
+    registrationId,
+    chainId,
+    dao,
+    proposalId,
+    type,
+    chatId,
+    messageThreadId,
+  }: DeliveryJob,
+  attempt: number,
+  response: ChannelResponse | undefined,
+  error: unknown,
+  latencyMs: number
+) => {
+  await env.DB.prepare(
+    'INSERT INTO delivery_attempts (idempotencyKey, registrationId, chainId, dao, proposalId, type, chatId, messageThreadId, attempt, ok, errorCode, error, latencyMs) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13)'
+  )
+    .bind(
+      idempotencyKey,
+      registrationId ?? null,
+      chainId,
+      dao,
+      proposalId,
+      type,
+      chatId,
+      messageThreadId,
+      attempt,
+      response?.ok ? 1 : 0,
+      response && !response.ok ? response.errorCode : null,
+      response
+        ? response.ok
+          ? null
+          : response.description
+        : error instanceof Error
+        ? error.message
+        : String(error),
+      latencyMs
+    )
+    .run()
+}
+
+// Hold a job until a chat's quiet hours or a registration's mute ends.
+const holdDelivery = async (env: Env, job: DeliveryJob, releaseAt: Date) => {
+  await env.DB.prepare(
+    "INSERT INTO held_deliveries (chatId, messageThreadId, job, releaseAt) VALUES (?1, ?2, ?3, datetime(?4, 'unixepoch'))"
+  )
+    .bind(
+      job.chatId,
+      job.messageThreadId,
+      JSON.stringify(job),
+      Math.floor(releaseAt.getTime() / 1000)
+    )
+    .run()
+}
+
+// Count a message towards a group's limit in the current window, starting a new
+// window if it has passed. Returns the seconds until the next window if the
+// limit was reached, or undefined if the message can be sent.
+const reserveGroupSend = async (
+  env: Env,
+  chatId: string
+): Promise<number | undefined> => {
+  const now = Math.floor(Date.now() / 1000)
+  const reserved = await env.DB.prepare(
+    'INSERT INTO group_send_windows (chatId, windowStart, sent) VALUES (?1, ?2, 1) ON CONFLICT (chatId) DO UPDATE SET windowStart = CASE WHEN windowStart <= ?2 - ?3 THEN ?2 ELSE windowStart END, sent = CASE WHEN windowStart <= ?2 - ?3 THEN 1 ELSE sent + 1 END WHERE windowStart <= ?2 - ?3 OR sent < ?4 RETURNING sent'
+  )
+    .bind(chatId, now, GROUP_WINDOW_SECONDS, MAX_GROUP_MESSAGES_PER_WINDOW)
+    .first()
+  if (reserved) {
+    return
+  }
+
+  const windowStart =
+    (await env.DB.prepare(
+      'SELECT windowStart FROM group_send_windows WHERE chatId = ?1'
+    )
+      .bind(chatId)
+      .first<number>('windowStart')) ?? now
+  return Math.max(windowStart + GROUP_WINDOW_SECONDS - now, 1)
+}
+
+// Delay before retrying a message, backing off exponentially with each
+// attempt.
+const getBackoffSeconds = (attempts: number) =>
+  Math.min(BACKOFF_SECONDS * 2 ** (attempts - 1), MAX_BACKOFF_SECONDS)
+
+// Consume delivery jobs enqueued by the notify route, sending each through its
+// channel. Messages are sent one at a time to stay under Telegram's rate
+// limits, and messages over a group's limit are deferred to its next window.
+// Transient failures are retried with backoff until the queue's max retries is
+// reached, after which the queue moves them to the dead letter queue. Failures
+// that will never succeed are sent to the dead letter queue right away. Jobs
+// for muted registrations are held until the mute ends, or dropped if it is
+// more than a week away, and during a chat's quiet hours, jobs are held until
+// they end or sent silently, as the chat chooses. Jobs for registrations that
+// were removed, and reminders for proposals that have closed since, are
+// dropped.
+export const deliveryQueue = async (
+  batch: MessageBatch<DeliveryJob>,
+  env: Env
+): Promise<void> => {
+  // Load each chat's quiet hours once per batch.
+  const quietHours: Record<string, Promise<QuietHoursSettings | null>> = {}
+  const getQuietHours = (chatId: string) =>
+    (quietHours[chatId] ??= env.DB.prepare(
+      'SELECT quietHoursStart, quietHoursEnd, timeZone, quietHoursMode FROM chat_settings WHERE chatId = ?1'
+    )
+      .bind(chatId)
+      .first<QuietHoursSettings>())
+
+  for (const [index, message] of batch.messages.entries()) {
+    const job = message.body
+    const {
+      chainId,
+      dao,
+      chatId,
+      messageThreadId,
+      channel = ChannelType.Telegram,
+    } = job
+    const label = `chat_id/message_thread_id ${chatId}/${messageThreadId} for ${chainId}/${dao}`
+
+    // Skip jobs that were already delivered, such as when a notify request
+    // that failed while enqueueing is repeated.
+    const delivery = await env.DB.prepare(
+      'SELECT status FROM deliveries WHERE idempotencyKey = ?1 AND chatId = ?2 AND messageThreadId IS ?3'
+    )
+      .bind(job.idempotencyKey, chatId, messageThreadId)
+      .first<Pick<DeliveryRow, 'status'>>()
+    if (delivery?.status === DeliveryStatus.Sent) {
+      message.ack()
+      continue
+    }
+
+    // Reminders may have been held or retried until after voting closed.
+    if (job.type === ScheduledMessageType.Reminder) {
+      const open = await env.DB.prepare(
+        "SELECT 1 FROM open_proposals WHERE chainId = ?1 AND dao = ?2 AND proposalId = ?3 AND expiresAt > datetime('now')"
+      )
+        .bind(chainId, dao, job.proposalId)
+        .first()
+      if (!open) {
+        console.log(`Dropped reminder for closed proposal with ${label}.`)
+        message.ack()
+        continue
+      }
+    }
+
+    // Released jobs are checked again, in case the mute was extended or the
+    // DAO was removed from the chat.
+    const registration =
+      job.registrationId !== undefined
+        ? await env.DB.prepare(
+            "SELECT CASE WHEN mutedUntil > datetime('now') THEN mutedUntil END AS mutedUntil FROM registrations WHERE id = ?1"
+          )
+            .bind(job.registrationId)
+            .first<Pick<RegistrationRow, 'mutedUntil'>>()
+        : undefined
+    if (registration === null) {
+      console.log(
+        `Dropped notification for removed registration with ${label}.`
+      )
+      message.ack()
+      continue
+    }
+    const mutedUntil = registration?.mutedUntil
+    if (mutedUntil) {
+      // SQLite datetimes are UTC without a timezone.
+      const muteEnd = new Date(mutedUntil.replace(' ', 'T') + 'Z')
+      if (muteEnd.getTime() - Date.now() <= MAX_HELD_MUTE_MS) {
+        await holdDelivery(env, job, muteEnd)
+        console.log(`Held notification until mute ends with ${label}.`)
+      } else {
+        console.log(`Dropped notification during long mute with ${label}.`)
+      }
+      message.ack()
+      continue
+    }
+
+    const settings = await getQuietHours(chatId)
+    const quietHoursEnd = settings ? getQuietHoursEnd(settings) : undefined
+    if (quietHoursEnd && settings?.quietHoursMode === QuietHoursMode.Hold) {
+      await holdDelivery(env, job, quietHoursEnd)
+      console.log(`Held notification until quiet hours end with ${label}.`)
+      message.ack()
+      continue
+    }
+
+    // Group chat IDs are negative.
+    if (Number(chatId) < 0) {
+      const deferSeconds = await reserveGroupSend(env, chatId)
+      if (deferSeconds !== undefined) {
+        // Re-enqueue instead of retrying so this does not count as an attempt.
+        await env.DELIVERY_QUEUE.send(job, { delaySeconds: deferSeconds })
+        message.ack()
+        continue
+      }
+    }
+
+    if (index > 0) {
+      await wait(SEND_INTERVAL_MS)
+    }
+
+    let response: ChannelResponse | undefined
+    let error: unknown
+    const start = Date.now()
+    try {
+      response = await CHANNELS[channel].send(env, job, {
+        silent: !!quietHoursEnd,
+      })
+    } catch (err) {
+      error = err
+      console.error(
+        `Failed to send notification to ${channel} with ${label}.`,
+        err
+      )
+    }
+
+    await recordDeliveryAttempt(
+      env,
+      job,
+      message.attempts,
+      response,
+      error,
+      Date.now() - start
+    )
+
+    if (response?.ok) {
+      console.log(`Sent notification to ${channel} with ${label}.`)
+      await setDeliveryStatus(env, job, DeliveryStatus.Sent)
+      message.ack()
+      continue
+    }
+
+    // Network errors are transient.
+    const failure = response && !response.ok ? response : undefined
+    const kind = failure?.kind ?? DeliveryErrorKind.Transient
+
+    if (failure) {
+      console.error(
+        `${channel} rejected notification (${kind}) with ${label}. Error ${failure.errorCode}: ${failure.description}`
+      )
+    }
+
+    // Deliveries stay queued while they are retried, so repeated notify
+    // requests do not enqueue them again, and resend to the new chat ID below
+    // instead.
+    const retrying =
+      kind === DeliveryErrorKind.Transient && message.attempts <= MAX_RETRIES
+    if (!retrying && kind !== DeliveryErrorKind.Migrated) {
+      await setDeliveryStatus(env, job, DeliveryStatus.Failed)
+    }
+
+    switch (kind) {
+      case DeliveryErrorKind.Transient:
+        // Respect the channel's requested delay if provided.
+        message.retry({
+          delaySeconds:
+            failure?.retryAfter ?? getBackoffSeconds(message.attempts),
+        })
+        break
+
+      // If the chat or topic is gone, remove its registrations.
+      case DeliveryErrorKind.Unreachable:
+        await deleteChatRegistrations(
+          env,
+          chatId,
+          failure?.topicOnly ? messageThreadId : undefined
+        )
+        message.ack()
+        break
+
+      // If the group was upgraded to a supergroup, move its registrations and
+      // resend to the new chat ID. The original proposal message stays in the
+      // old chat, so it cannot be updated.
+      case DeliveryErrorKind.Migrated: {
+        const toChatId = failure?.migrateToChatId
+        // Without the new chat ID, the job can never be delivered.
+        if (!toChatId) {
+          await setDeliveryStatus(env, job, DeliveryStatus.Failed)
+          await env.DELIVERY_DEAD_LETTER_QUEUE.send(job)
+          message.ack()
+          break
+        }
+
+        await migrateChatRegistrations(env, chatId, toChatId)
+        await env.DELIVERY_QUEUE.send({
+          ...job,
+          chatId: toChatId,
+        })
+        message.ack()
+        break
+      }
+
+      default:
+        await env.DELIVERY_DEAD_LETTER_QUEUE.send(job)
+        message.ack()
+        break
+    }
+  }
+}
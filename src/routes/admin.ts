@@ -0,0 +1,597 @@
+import { Request as IttyRequest } from 'itty-router'
+import {
+  ChannelRow,
+  ChannelType,
+  DaoInfoRow,
+  DeliveryAttemptRow,
+  Env,
+  NotifyType,
+  RegistrationRow,
+} from '../types'
+import {
+  Schema,
+  deleteChatRegistrations,
+  deleteDaoRegistration,
+  getCachedDaoInfo,
+  respond,
+  respondError,
+  timingSafeEqual,
+  validateSchema,
+} from '../utils'
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 500
+
+// Matches the maximum of the /reminders command.
+const MAX_REMINDER_HOURS = 7 * 24
+
+// Fields in the body of a request to add a channel.
+const CHANNEL_SCHEMA: Schema = {
+  type: { type: 'string' },
+  url: { type: 'url' },
+  secret: { type: 'string', optional: true },
+}
+
+// Fields in the body of a request to track a DAO in a channel.
+const CHANNEL_REGISTRATION_SCHEMA: Schema = {
+  dao: { type: 'string' },
+  reminderHours: {
+    type: 'number',
+    optional: true,
+    min: 1,
+    max: MAX_REMINDER_HOURS,
+  },
+  minVotingPower: { type: 'number', optional: true, min: 0, max: 100 },
+}
+
+// Metrics cover the last day by default.
+const DEFAULT_METRICS_WINDOW_MS = 24 * 60 * 60 * 1000
+
+type Pagination = {
+  limit: number
+  offset: number
+}
+
+// Parse the `limit` and `offset` query parameters.
+const parsePagination = (
+  request: IttyRequest
+): Pagination | { error: string } => {
+  const limit = Number(request.query?.limit ?? DEFAULT_PAGE_SIZE)
+  const offset = Number(request.query?.offset ?? 0)
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return {
+      error: `\`limit\` must be an integer between 1 and ${MAX_PAGE_SIZE}.`,
+    }
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { error: '`offset` must be a non-negative integer.' }
+  }
+
+  return { limit, offset }
+}
+
+// Respond with one page of results. One more row than the limit is loaded to
+// tell whether there is a next page.
+const respondPage = (
+  key: string,
+  rows: unknown[],
+  { limit, offset }: Pagination
+) =>
+  respond(200, {
+    [key]: rows.slice(0, limit),
+    limit,
+    offset,
+    nextOffset: rows.length > limit ? offset + limit : null,
+  })
+
+// Parse a JSON object request body, or undefined if it is not one.
+const parseBody = async (
+  request: IttyRequest & Request
+): Promise<Record<string, unknown> | undefined> => {
+  const body = await request.json?.().catch(() => null)
+  return body && typeof body === 'object' && !Array.isArray(body)
+    ? body
+    : undefined
+}
+
+// Parse the `id` route parameter, or undefined if it is not a positive integer.
+const parseId = (request: IttyRequest): number | undefined => {
+  const id = Number(request.params?.id)
+  return /^\d+$/.test(request.params?.id ?? '') && id > 0 ? id : undefined
+}
+
+// Respond with why each invalid field of a request body is invalid, if any.
+const respondInvalidFields = (fieldErrors: Record<string, string>) =>
+  Object.keys(fieldErrors).length > 0
+    ? respond(400, {
+        error: `Invalid body: ${Object.entries(fieldErrors)
+          .map(([field, error]) => `\`${field}\` ${error}`)
+          .join(', ')}.`,
+        fields: fieldErrors,
+      })
+    : undefined
+
+// Parse the `since` and `until` query parameters, ISO 8601 dates or Unix
+// timestamps in milliseconds, into Unix seconds.
+const parseTimeWindow = (
+  request: IttyRequest
+): { since: number; until: number } | { error: string } => {
+  const parseDate = (value: unknown, fallback: number) =>
+    value === undefined
+      ? fallback
+      : new Date(
+          typeof value === 'string' && /^\d+$/.test(value)
+            ? Number(value)
+            : String(value)
+        ).getTime()
+
+  const until = parseDate(request.query?.until, Date.now())
+  const since = parseDate(
+    request.query?.since,
+    until - DEFAULT_METRICS_WINDOW_MS
+  )
+  if (isNaN(since) || isNaN(until) || since > until) {
+    return {
+      error: '`since` and `until` must be dates, with `since` first.',
+    }
+  }
+
+  return {
+    since: Math.floor(since / 1000),
+    until: Math.floor(until / 1000),
+  }
+}
+
+// Require the admin API key in the `Authorization` header. Passes through to
+// the next route if valid.
+export const authenticateAdmin = (
+  request: IttyRequest & Request,
+  env: Env
+): Response | undefined => {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+
+  if (
+    !env.ADMIN_API_KEY ||
+    !token ||
+    !timingSafeEqual(token, env.ADMIN_API_KEY)
+  ) {
+    return respondError(401, 'Invalid admin API key.')
+  }
+}
+
+// List registrations, optionally filtered by chain, DAO, and chat.
+export const listRegistrations = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const pagination = parsePagination(request)
+  if ('error' in pagination) {
+    return respondError(400, pagination.error)
+  }
+
+  const { chainId, dao, chatId } = request.query ?? {}
+  const { results = [] } = await env.DB.prepare(
+    'SELECT * FROM registrations WHERE (?1 IS NULL OR chainId = ?1) AND (?2 IS NULL OR dao = ?2) AND (?3 IS NULL OR chatId = ?3) ORDER BY id LIMIT ?4 OFFSET ?5'
+  )
+    .bind(
+      chainId ?? null,
+      dao ?? null,
+      chatId ?? null,
+      pagination.limit + 1,
+      pagination.offset
+    )
+    .all<RegistrationRow>()
+
+  return respondPage('registrations', results, pagination)
+}
+
+// Count the chats registered for each DAO, most first.
+export const countSubscribers = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const pagination = parsePagination(request)
+  if ('error' in pagination) {
+    return respondError(400, pagination.error)
+  }
+
+  const { results = [] } = await env.DB.prepare(
+    'SELECT r.chainId, r.dao, i.name, COUNT(*) AS subscribers FROM registrations r LEFT JOIN dao_info i ON i.dao = r.dao GROUP BY r.chainId, r.dao ORDER BY subscribers DESC, r.dao LIMIT ?1 OFFSET ?2'
+  )
+    .bind(pagination.limit + 1, pagination.offset)
+    .all<
+      Pick<RegistrationRow, 'chainId' | 'dao'> &
+        Pick<DaoInfoRow, 'name'> & { subscribers: number }
+    >()
+
+  return respondPage('daos', results, pagination)
+}
+
+// List the DAOs a chat tracks, in any topic, with their last known info.
+export const listChatDaos = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const pagination = parsePagination(request)
+  if ('error' in pagination) {
+    return respondError(400, pagination.error)
+  }
+
+  const { chatId } = request.params ?? {}
+  const { results = [] } = await env.DB.prepare(
+    'SELECT r.id, r.chainId, r.dao, r.messageThreadId, i.name, i.url FROM registrations r LEFT JOIN dao_info i ON i.dao = r.dao WHERE r.chatId = ?1 ORDER BY r.id LIMIT ?2 OFFSET ?3'
+  )
+    .bind(chatId, pagination.limit + 1, pagination.offset)
+    .all<
+      Pick<RegistrationRow, 'id' | 'chainId' | 'dao' | 'messageThreadId'> &
+        Pick<DaoInfoRow, 'name' | 'url'>
+    >()
+
+  return respondPage('daos', results, pagination)
+}
+
+// Delete a registration, along with its sent proposal messages and held
+// digest events and deliveries.
+export const deleteRegistration = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const id = parseId(request)
+  if (id === undefined) {
+    return respondError(400, '`id` must be a positive integer.')
+  }
+
+  const registration = await env.DB.prepare(
+    'SELECT * FROM registrations WHERE id = ?1'
+  )
+    .bind(id)
+    .first<RegistrationRow>()
+  if (!registration) {
+    return respondError(404, 'Registration not found.')
+  }
+
+  await deleteDaoRegistration(env, registration)
+
+  return respond(200, { success: true })
+}
+
+// Move a registration to another chat or topic. Held digest events and
+// deliveries move with it, but sent proposal messages are dropped since they
+// stay in the old chat.
+export const moveRegistration = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const id = parseId(request)
+  if (id === undefined) {
+    return respondError(400, '`id` must be a positive integer.')
+  }
+
+  const body = await parseBody(request)
+  if (!body) {
+    return respondError(400, 'Body must be a JSON object.')
+  }
+
+  const { chatId: toChatId, messageThreadId: toMessageThreadId = null } = body
+  if (typeof toChatId !== 'string' || !/^-?\d+$/.test(toChatId)) {
+    return respondError(400, '`chatId` must be a numeric string.')
+  }
+  if (
+    toMessageThreadId !== null &&
+    (typeof toMessageThreadId !== 'string' || !/^\d+$/.test(toMessageThreadId))
+  ) {
+    return respondError(400, '`messageThreadId` must be a numeric string.')
+  }
+
+  const registration = await env.DB.prepare(
+    'SELECT * FROM registrations WHERE id = ?1'
+  )
+    .bind(id)
+    .first<RegistrationRow>()
+  if (!registration) {
+    return respondError(404, 'Registration not found.')
+  }
+
+  const { chainId, dao, chatId, messageThreadId } = registration
+  const existing = await env.DB.prepare(
+    'SELECT id FROM registrations WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId IS ?4'
+  )
+    .bind(chainId, dao, toChatId, toMessageThreadId)
+    .first<Pick<RegistrationRow, 'id'>>()
+  if (existing) {
+    return respondError(
+      409,
+      existing.id === registration.id
+        ? 'Registration is already in this chat.'
+        : 'The chat already tracks this DAO.'
+    )
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(
+      'UPDATE registrations SET chatId = ?2, messageThreadId = ?3, updatedAt = CURRENT_TIMESTAMP WHERE id = ?1'
+    ).bind(registration.id, toChatId, toMessageThreadId),
+    env.DB.prepare(
+      'UPDATE digest_events SET chatId = ?5, messageThreadId = ?6 WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId IS ?4'
+    ).bind(chainId, dao, chatId, messageThreadId, toChatId, toMessageThreadId),
+    env.DB.prepare(
+      "UPDATE held_deliveries SET chatId = ?3, messageThreadId = ?4, job = json_set(job, '$.chatId', ?3, '$.messageThreadId', ?4) WHERE json_extract(job, '$.registrationId') = ?1 AND chatId = ?2"
+    ).bind(registration.id, chatId, toChatId, toMessageThreadId),
+    env.DB.prepare(
+      'DELETE FROM proposal_messages WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId IS ?4'
+    ).bind(chainId, dao, chatId, messageThreadId),
+  ])
+
+  return respond(200, {
+    success: true,
+    registration: {
+      ...registration,
+      chatId: toChatId,
+      messageThreadId: toMessageThreadId,
+    },
+  })
+}
+
+// List delivery attempts, newest first, optionally filtered by chain, DAO,
+// proposal, and chat.
+export const listDeliveryAttempts = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const pagination = parsePagination(request)
+  if ('error' in pagination) {
+    return respondError(400, pagination.error)
+  }
+
+  const { chainId, dao, proposalId, chatId } = request.query ?? {}
+  const { results = [] } = await env.DB.prepare(
+    'SELECT * FROM delivery_attempts WHERE (?1 IS NULL OR chainId = ?1) AND (?2 IS NULL OR dao = ?2) AND (?3 IS NULL OR proposalId = ?3) AND (?4 IS NULL OR chatId = ?4) ORDER BY id DESC LIMIT ?5 OFFSET ?6'
+  )
+    .bind(
+      chainId ?? null,
+      dao ?? null,
+      proposalId ?? null,
+      chatId ?? null,
+      pagination.limit + 1,
+      pagination.offset
+    )
+    .all<DeliveryAttemptRow>()
+
+  return respondPage('attempts', results, pagination)
+}
+
+// Summarize delivery attempts for each DAO in a time window, most attempts
+// first.
+export const getDeliveryMetrics = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const pagination = parsePagination(request)
+  if ('error' in pagination) {
+    return respondError(400, pagination.error)
+  }
+  const window = parseTimeWindow(request)
+  if ('error' in window) {
+    return respondError(400, window.error)
+  }
+
+  const { chainId, dao } = request.query ?? {}
+  const { results = [] } = await env.DB.prepare(
+    "SELECT chainId, dao, COUNT(*) AS attempts, SUM(ok) AS sent, COUNT(*) - SUM(ok) AS failed, ROUND(AVG(latencyMs)) AS averageLatencyMs FROM delivery_attempts WHERE createdAt >= datetime(?1, 'unixepoch') AND createdAt < datetime(?2, 'unixepoch') AND (?3 IS NULL OR chainId = ?3) AND (?4 IS NULL OR dao = ?4) GROUP BY chainId, dao ORDER BY attempts DESC, dao LIMIT ?5 OFFSET ?6"
+  )
+    .bind(
+      window.since,
+      window.until,
+      chainId ?? null,
+      dao ?? null,
+      pagination.limit + 1,
+      pagination.offset
+    )
+    .all<
+      Pick<DeliveryAttemptRow, 'chainId' | 'dao'> & {
+        attempts: number
+        sent: number
+        failed: number
+        averageLatencyMs: number
+      }
+    >()
+
+  const { limit, offset } = pagination
+  return respond(200, {
+    since: new Date(window.since * 1000).toISOString(),
+    until: new Date(window.until * 1000).toISOString(),
+    daos: results.slice(0, limit).map((metrics) => ({
+      ...metrics,
+      successRate: metrics.sent / metrics.attempts,
+      failureRate: metrics.failed / metrics.attempts,
+    })),
+    limit,
+    offset,
+    nextOffset: results.length > limit ? offset + limit : null,
+  })
+}
+
+// List Discord and generic webhook channels, without their secrets.
+export const listChannels = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const pagination = parsePagination(request)
+  if ('error' in pagination) {
+    return respondError(400, pagination.error)
+  }
+
+  const { results = [] } = await env.DB.prepare(
+    'SELECT id, chatId, type, url, createdAt FROM channels ORDER BY id LIMIT ?1 OFFSET ?2'
+  )
+    .bind(pagination.limit + 1, pagination.offset)
+    .all<Omit<ChannelRow, 'secret'>>()
+
+  return respondPage('channels', results, pagination)
+}
+
+// Add a Discord webhook or generic webhook channel. Generic webhooks without a
+// secret get a random one, which is only returned here.
+export const createChannel = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const body = await parseBody(request)
+  if (!body) {
+    return respondError(400, 'Body must be a JSON object.')
+  }
+
+  const invalid = respondInvalidFields(validateSchema(body, CHANNEL_SCHEMA))
+  if (invalid) {
+    return invalid
+  }
+
+  const type = body.type as string
+  const url = new URL(body.url as string)
+  if (type !== ChannelType.Discord && type !== ChannelType.Webhook) {
+    return respondError(
+      400,
+      `\`type\` must be \`${ChannelType.Discord}\` or \`${ChannelType.Webhook}\`.`
+    )
+  }
+  if (
+    type === ChannelType.Discord &&
+    (url.protocol !== 'https:' || !url.pathname.startsWith('/api/webhooks/'))
+  ) {
+    return respondError(400, '`url` must be a Discord webhook URL.')
+  }
+
+  const secret =
+    type === ChannelType.Webhook
+      ? (body.secret as string | undefined) ||
+        Array.from(crypto.getRandomValues(new Uint8Array(32)))
+          .map((byte) => byte.toString(16).padStart(2, '0'))
+          .join('')
+      : null
+
+  const channel = await env.DB.prepare(
+    'INSERT INTO channels (chatId, type, url, secret) VALUES (?1, ?2, ?3, ?4) RETURNING *'
+  )
+    .bind(`${type}:${crypto.randomUUID()}`, type, url.toString(), secret)
+    .first<ChannelRow>()
+
+  return respond(200, { success: true, channel })
+}
+
+// Delete a channel along with its registrations.
+export const deleteChannel = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const id = parseId(request)
+  if (id === undefined) {
+    return respondError(400, '`id` must be a positive integer.')
+  }
+
+  const channel = await env.DB.prepare(
+    'SELECT chatId FROM channels WHERE id = ?1'
+  )
+    .bind(id)
+    .first<Pick<ChannelRow, 'chatId'>>()
+  if (!channel) {
+    return respondError(404, 'Channel not found.')
+  }
+
+  await deleteChatRegistrations(env, channel.chatId)
+
+  return respond(200, { success: true })
+}
+
+// Track a DAO in a channel, optionally limited to some notify types and with
+// reminder and vote settings. Channels cannot use digests, which are only
+// rendered for Telegram. Delete the registration to stop tracking the DAO.
+export const createChannelRegistration = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
+  const id = parseId(request)
+  if (id === undefined) {
+    return respondError(400, '`id` must be a positive integer.')
+  }
+
+  const body = await parseBody(request)
+  if (!body) {
+    return respondError(400, 'Body must be a JSON object.')
+  }
+
+  const invalid = respondInvalidFields(
+    validateSchema(body, CHANNEL_REGISTRATION_SCHEMA)
+  )
+  if (invalid) {
+    return invalid
+  }
+
+  const { notifyTypes = null } = body
+  if (
+    notifyTypes !== null &&
+    (!Array.isArray(notifyTypes) ||
+      notifyTypes.some(
+        (type) => !Object.values(NotifyType).includes(type as NotifyType)
+      ))
+  ) {
+    return respondError(
+      400,
+      '`notifyTypes` must be an array of notify types, or null for every type except `vote_cast`.'
+    )
+  }
+
+  const channel = await env.DB.prepare(
+    'SELECT chatId FROM channels WHERE id = ?1'
+  )
+    .bind(id)
+    .first<Pick<ChannelRow, 'chatId'>>()
+  if (!channel) {
+    return respondError(404, 'Channel not found.')
+  }
+
+  const dao = body.dao as string
+  const info = await getCachedDaoInfo(env, dao)
+  if (!info) {
+    return respondError(400, 'DAO not found.')
+  }
+
+  const existing = await env.DB.prepare(
+    'SELECT id FROM registrations WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId IS NULL'
+  )
+    .bind(info.chainId, dao, channel.chatId)
+    .first<Pick<RegistrationRow, 'id'>>()
+  if (existing) {
+    return respondError(409, 'The channel already tracks this DAO.')
+  }
+
+  // Store types in a consistent order, and keep the defaults of settings that
+  // are not provided.
+  const [, { results = [] }] = await env.DB.batch<RegistrationRow>([
+    env.DB.prepare(
+      'INSERT INTO registrations (chainId, dao, chatId, notifyTypes) VALUES (?1, ?2, ?3, ?4)'
+    ).bind(
+      info.chainId,
+      dao,
+      channel.chatId,
+      notifyTypes &&
+        JSON.stringify(
+          Object.values(NotifyType).filter((type) =>
+            (notifyTypes as unknown[]).includes(type)
+          )
+        )
+    ),
+    env.DB.prepare(
+      'UPDATE registrations SET reminderHours = COALESCE(?4, reminderHours), minVotingPower = COALESCE(?5, minVotingPower) WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 RETURNING *'
+    ).bind(
+      info.chainId,
+      dao,
+      channel.chatId,
+      body.reminderHours ?? null,
+      body.minVotingPower ?? null
+    ),
+  ])
+  const [registration] = results
+
+  return respond(200, { success: true, registration })
+}
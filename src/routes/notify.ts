@@ -1,21 +1,105 @@
-import { Request } from 'itty-router'
-import { Env, RegistrationRow } from '../types'
-import { escapeMarkdownV2, respond, respondError } from '../utils'
+import { Request as IttyRequest } from 'itty-router'
+import {
+  ChannelRow,
+  ChatSettingsRow,
+  DeliveryJob,
+  DeliveryStatus,
+  Env,
+  Language,
+  NotificationRow,
+  NotifyPayload,
+  NotifyType,
+  ProposalFilter,
+  RegistrationRow,
+  UpdateMode,
+} from '../types'
+import {
+  DEFAULT_LANGUAGE,
+  FieldSchema,
+  SIGNATURE_HEADER,
+  Schema,
+  TIMESTAMP_HEADER,
+  TemplateVariables,
+  cacheDaoInfo,
+  getTemplateOptions,
+  matchesFilters,
+  renderDeliveryMessages,
+  respond,
+  respondError,
+  timingSafeEqual,
+  translate,
+  validateSchema,
+  verifySignature,
+} from '../utils'
+import { enqueueDeliveries } from '../queues/delivery'
 import removeMarkdown from 'remove-markdown'
 
-const BATCH_SIZE = 10
-const RETRIES = 3
+// Fields in every notify request body.
+const BASE_SCHEMA: Schema = {
+  idempotencyKey: { type: 'string', optional: true },
+  daoName: { type: 'string' },
+  daoUrl: { type: 'url' },
+  proposalId: { type: 'id' },
+  proposalTitle: { type: 'string' },
+  proposalDescription: { type: 'string', optional: true },
+  url: { type: 'url' },
+}
 
-const MAX_DESCRIPTION_LENGTH = 500
+// Proposals may have an empty description.
+const DESCRIPTION_FIELD: FieldSchema = { type: 'string', allowEmpty: true }
 
-enum NotifyType {
-  ProposalCreated = 'proposal_created',
-  ProposalExecuted = 'proposal_executed',
-  ProposalExecutionFailed = 'proposal_execution_failed',
-  ProposalClosed = 'proposal_closed',
+// Fields in the notify request body for each type. See `NotifyPayload`.
+const PAYLOAD_SCHEMAS: Record<NotifyType, Schema> = {
+  [NotifyType.ProposalCreated]: {
+    ...BASE_SCHEMA,
+    proposalDescription: DESCRIPTION_FIELD,
+    expiresAt: { type: 'date', optional: true },
+  },
+  [NotifyType.ProposalExecuted]: {
+    ...BASE_SCHEMA,
+    proposalDescription: DESCRIPTION_FIELD,
+    winningChoice: { type: 'string', optional: true },
+  },
+  [NotifyType.ProposalExecutionFailed]: {
+    ...BASE_SCHEMA,
+    proposalDescription: DESCRIPTION_FIELD,
+    winningChoice: { type: 'string', optional: true },
+  },
+  [NotifyType.ProposalClosed]: {
+    ...BASE_SCHEMA,
+    proposalDescription: DESCRIPTION_FIELD,
+  },
+  [NotifyType.ProposalVetoed]: {
+    ...BASE_SCHEMA,
+    vetoer: { type: 'string', optional: true },
+  },
+  [NotifyType.ProposalVetoTimelock]: {
+    ...BASE_SCHEMA,
+    vetoer: { type: 'string', optional: true },
+    timelockExpiresAt: { type: 'date', optional: true },
+  },
+  [NotifyType.VoteCast]: {
+    ...BASE_SCHEMA,
+    voter: { type: 'string' },
+    vote: { type: 'string' },
+    votingPower: { type: 'number', min: 0, max: 100 },
+  },
 }
 
-export const notify = async (request: Request, env: Env): Promise<Response> => {
+// A registration to deliver to, with its chat's settings and its channel type
+// if it is not a Telegram chat.
+type DeliveryTarget = Pick<
+  RegistrationRow,
+  'id' | 'chatId' | 'messageThreadId' | 'updateMode'
+> &
+  Pick<ChatSettingsRow, 'templates' | 'descriptionLength' | 'language'> & {
+    channel: ChannelRow['type'] | null
+  }
+
+export const notify = async (
+  request: IttyRequest & Request,
+  env: Env
+): Promise<Response> => {
   const { chainId, dao } = request.params ?? {}
   if (!chainId) {
     return respondError(400, 'Missing `chainId`.')
@@ -24,153 +108,361 @@ export const notify = async (request: Request, env: Env): Promise<Response> => {
     return respondError(400, 'Missing `dao`.')
   }
 
-  const {
-    type: _type,
-    apiKey,
-    daoName,
-    proposalTitle,
-    proposalDescription,
-    proposalId,
-    daoUrl,
-    url,
-    winningChoice,
-  } = await request.json?.()
+  const rawBody = await request.text().catch(() => '')
 
-  // Backwards compatibility.
-  const type = _type ?? NotifyType.ProposalCreated
+  // Verify signed requests before parsing them.
+  const signature = request.headers.get(SIGNATURE_HEADER)
+  if (signature) {
+    const timestamp = request.headers.get(TIMESTAMP_HEADER)
+    if (!timestamp) {
+      return respondError(401, `Missing \`${TIMESTAMP_HEADER}\` header.`)
+    }
 
-  let sanitizedDescription = removeMarkdown(proposalDescription)
-  if (sanitizedDescription.length > MAX_DESCRIPTION_LENGTH) {
-    sanitizedDescription =
-      sanitizedDescription.slice(0, MAX_DESCRIPTION_LENGTH) + '...'
+    const signatureError = await verifySignature(
+      (env.NOTIFY_SIGNING_KEYS ?? '')
+        .split(',')
+        .map((key) => key.trim())
+        .filter(Boolean),
+      timestamp,
+      signature,
+      rawBody
+    )
+    if (signatureError) {
+      return respondError(401, signatureError)
+    }
   }
 
-  if (apiKey !== env.NOTIFY_API_KEY) {
+  let body
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    body = null
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return respondError(400, 'Body must be a JSON object.')
+  }
+
+  // Unsigned requests must use the legacy API key, if it is allowed.
+  if (
+    !signature &&
+    !(
+      env.ALLOW_LEGACY_API_KEY === 'true' &&
+      !!env.NOTIFY_API_KEY &&
+      typeof body.apiKey === 'string' &&
+      timingSafeEqual(body.apiKey, env.NOTIFY_API_KEY)
+    )
+  ) {
     return respondError(401, 'Invalid API key.')
   }
 
-  const text =
-    type === NotifyType.ProposalCreated
-      ? `_[Proposal ${escapeMarkdownV2(
-          proposalId
-        )}](${url}) is open for voting in [${escapeMarkdownV2(
-          daoName
-        )}](${daoUrl})\\._\n\n>*${escapeMarkdownV2(
-          proposalTitle
-        )}*\n>\n>${escapeMarkdownV2(sanitizedDescription)
-          .trim()
-          .split('\n')
-          .join('\n>')}`
-      : type === NotifyType.ProposalExecuted
-      ? `_[Proposal ${escapeMarkdownV2(
-          proposalId
-        )}](${url}) in [${escapeMarkdownV2(
-          daoName
-        )}](${daoUrl})\\ was passed and executed\\._\n\n>*${escapeMarkdownV2(
-          proposalTitle
-        )}*\n>\n>${escapeMarkdownV2(sanitizedDescription)
-          .trim()
-          .split('\n')
-          .join('\n>')}${
-          winningChoice
-            ? `\n>\n>Outcome: *${escapeMarkdownV2(winningChoice)}*`
-            : ''
-        }`
-      : type === NotifyType.ProposalExecutionFailed
-      ? `_[Proposal ${escapeMarkdownV2(
-          proposalId
-        )}](${url}) in [${escapeMarkdownV2(
-          daoName
-        )}](${daoUrl})\\ was passed but failed to execute\\._\n\n>*${escapeMarkdownV2(
-          proposalTitle
-        )}*\n>\n>${escapeMarkdownV2(sanitizedDescription)
-          .trim()
-          .split('\n')
-          .join('\n>')}${
-          winningChoice
-            ? `\n>\n>Outcome: *${escapeMarkdownV2(winningChoice)}*`
-            : ''
-        }`
-      : type === NotifyType.ProposalClosed
-      ? `_[Proposal ${escapeMarkdownV2(
-          proposalId
-        )}](${url}) in [${escapeMarkdownV2(
-          daoName
-        )}](${daoUrl})\\ was rejected and closed\\._\n\n>*${escapeMarkdownV2(
-          proposalTitle
-        )}*\n>\n>${escapeMarkdownV2(sanitizedDescription)
-          .trim()
-          .split('\n')
-          .join('\n>')}`
-      : ''
-
-  if (!text) {
+  // Backwards compatibility.
+  const type: NotifyType = body.type ?? NotifyType.ProposalCreated
+  if (!Object.values(NotifyType).includes(type)) {
     return respondError(400, 'Invalid notification type.')
   }
 
-  const { results: registrations = [] } = await env.DB.prepare(
-    'SELECT chatId, messageThreadId FROM registrations WHERE chainId = ?1 AND dao = ?2'
+  const fieldErrors = validateSchema(body, PAYLOAD_SCHEMAS[type])
+  if (Object.keys(fieldErrors).length > 0) {
+    return respond(400, {
+      error: `Invalid payload for \`${type}\`: ${Object.entries(fieldErrors)
+        .map(([field, error]) => `\`${field}\` ${error}`)
+        .join(', ')}.`,
+      fields: fieldErrors,
+    })
+  }
+
+  const payload = { ...body, type } as NotifyPayload
+  const { daoName, daoUrl, proposalTitle, url } = payload
+  const proposalId = String(payload.proposalId)
+
+  const statusKey =
+    payload.type === NotifyType.ProposalExecuted
+      ? 'statusExecuted'
+      : payload.type === NotifyType.ProposalExecutionFailed
+      ? 'statusExecutionFailed'
+      : payload.type === NotifyType.ProposalClosed
+      ? 'statusClosed'
+      : payload.type === NotifyType.ProposalVetoed
+      ? 'statusVetoed'
+      : payload.type === NotifyType.ProposalVetoTimelock
+      ? 'statusVetoTimelock'
+      : undefined
+  const description = removeMarkdown(payload.proposalDescription ?? '')
+
+  // Template variables in each chat's language, rendered once per language.
+  const variablesByLanguage: Partial<Record<Language, TemplateVariables>> = {}
+  const getVariables = (language: Language): TemplateVariables =>
+    (variablesByLanguage[language] ??= {
+      proposal: {
+        label: translate(language, 'proposalLabel', { id: proposalId }),
+        url,
+      },
+      dao: { label: daoName, url: daoUrl },
+      daoName,
+      proposalId,
+      title: proposalTitle,
+      description,
+      status: statusKey && translate(language, statusKey),
+      ...((payload.type === NotifyType.ProposalExecuted ||
+        payload.type === NotifyType.ProposalExecutionFailed) && {
+        outcome: payload.winningChoice || undefined,
+      }),
+      ...((payload.type === NotifyType.ProposalVetoed ||
+        payload.type === NotifyType.ProposalVetoTimelock) && {
+        vetoer: payload.vetoer || translate(language, 'defaultVetoer'),
+      }),
+      ...(payload.type === NotifyType.ProposalVetoTimelock && {
+        timelockEnd:
+          payload.timelockExpiresAt === undefined
+            ? translate(language, 'defaultTimelockEnd')
+            : new Date(payload.timelockExpiresAt)
+                .toISOString()
+                .slice(0, 16)
+                .replace('T', ' ') + ' UTC',
+      }),
+      ...(payload.type === NotifyType.VoteCast && {
+        voter: payload.voter,
+        vote: payload.vote,
+        votingPower: `${Number(payload.votingPower.toFixed(2))}%`,
+      }),
+    })
+
+  // Refresh the cached DAO info, in case its name changed.
+  await cacheDaoInfo(env, dao, {
+    chainId,
+    url: daoUrl,
+    value: { config: { name: daoName } },
+  })
+
+  // Track open proposals so reminders can be sent before voting closes.
+  if (payload.type === NotifyType.ProposalCreated) {
+    if (payload.expiresAt !== undefined) {
+      await env.DB.prepare(
+        "INSERT OR REPLACE INTO open_proposals (chainId, dao, proposalId, daoName, daoUrl, title, url, expiresAt) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, datetime(?8, 'unixepoch'))"
+      )
+        .bind(
+          chainId,
+          dao,
+          proposalId,
+          daoName,
+          daoUrl,
+          proposalTitle,
+          url,
+          Math.floor(new Date(payload.expiresAt).getTime() / 1000)
+        )
+        .run()
+    }
+  } else if (payload.type !== NotifyType.VoteCast) {
+    await env.DB.batch(
+      ['open_proposals', 'proposal_reminders'].map((table) =>
+        env.DB.prepare(
+          `DELETE FROM ${table} WHERE chainId = ?1 AND dao = ?2 AND proposalId = ?3`
+        ).bind(chainId, dao, proposalId)
+      )
+    )
+  }
+
+  // Use the provided idempotency key, or derive one from the proposal event.
+  // A voter may vote more than once, such as when changing their vote.
+  const idempotencyKey =
+    request.headers.get('Idempotency-Key') ||
+    payload.idempotencyKey ||
+    [
+      chainId,
+      dao,
+      type,
+      proposalId,
+      ...(payload.type === NotifyType.VoteCast
+        ? [payload.voter, payload.vote]
+        : []),
+    ].join(':')
+
+  // Render the notification with each chat's template overrides and
+  // language.
+  const buildJob = ({
+    id,
+    chatId,
+    messageThreadId,
+    updateMode,
+    channel,
+    ...settings
+  }: DeliveryTarget): DeliveryJob => ({
+    idempotencyKey,
+    chainId,
+    dao,
+    proposalId: proposalId,
+    type,
+    chatId,
+    messageThreadId,
+    // Votes do not change the proposal's status, so reply to the original
+    // message instead of editing it.
+    updateMode:
+      type === NotifyType.VoteCast && updateMode === UpdateMode.Edit
+        ? UpdateMode.Reply
+        : updateMode,
+    ...renderDeliveryMessages(
+      type,
+      getVariables(settings.language ?? DEFAULT_LANGUAGE),
+      getTemplateOptions(type, settings),
+      channel ?? undefined
+    ),
+    url,
+    registrationId: id,
+    language: settings.language ?? undefined,
+    channel: channel ?? undefined,
+  })
+
+  // Load the request recorded with this idempotency key, if any.
+  const getNotification = () =>
+    env.DB.prepare('SELECT queued FROM notifications WHERE idempotencyKey = ?1')
+      .bind(idempotencyKey)
+      .first<Pick<NotificationRow, 'queued'>>()
+
+  // Mark deliveries with the given statuses queued, and enqueue them for chats
+  // that are still registered. Claiming them in one statement means
+  // concurrent requests never enqueue the same delivery twice.
+  const claimDeliveries = async (statuses: DeliveryStatus[]) => {
+    const { results: claimed = [] } = await env.DB.prepare(
+      `UPDATE deliveries SET status = '${DeliveryStatus.Queued}', updatedAt = CURRENT_TIMESTAMP WHERE idempotencyKey = ?1 AND status IN (SELECT value FROM json_each(?2)) RETURNING id`
+    )
+      .bind(idempotencyKey, JSON.stringify(statuses))
+      .all<{ id: number }>()
+    if (claimed.length === 0) {
+      return []
+    }
+
+    const { results: targets = [] } = await env.DB.prepare(
+      'SELECT r.id, r.chatId, r.messageThreadId, r.updateMode, s.templates, s.descriptionLength, s.language, c.type AS channel FROM deliveries d JOIN registrations r ON r.chainId = ?2 AND r.dao = ?3 AND r.chatId = d.chatId AND r.messageThreadId IS d.messageThreadId LEFT JOIN chat_settings s ON s.chatId = r.chatId LEFT JOIN channels c ON c.chatId = r.chatId WHERE d.idempotencyKey = ?1 AND d.id IN (SELECT value FROM json_each(?4))'
+    )
+      .bind(
+        idempotencyKey,
+        chainId,
+        dao,
+        JSON.stringify(claimed.map(({ id }) => id))
+      )
+      .all<DeliveryTarget>()
+
+    // If enqueueing fails, release the claim so a retry can enqueue them.
+    const jobs = targets.map(buildJob)
+    try {
+      await enqueueDeliveries(env, jobs)
+    } catch (err) {
+      await env.DB.prepare(
+        `UPDATE deliveries SET status = '${DeliveryStatus.Pending}', updatedAt = CURRENT_TIMESTAMP WHERE id IN (SELECT value FROM json_each(?1)) AND status = '${DeliveryStatus.Queued}'`
+      )
+        .bind(JSON.stringify(claimed.map(({ id }) => id)))
+        .run()
+      throw err
+    }
+
+    return jobs
+  }
+
+  // Resume a repeated request's deliveries that failed, and those the original
+  // request has not enqueued yet, such as when its fan-out failed.
+  const resume = async (original: Pick<NotificationRow, 'queued'>) => {
+    const jobs = await claimDeliveries([
+      DeliveryStatus.Pending,
+      DeliveryStatus.Failed,
+    ])
+
+    return respond(200, {
+      success: true,
+      duplicate: true,
+      queued: original.queued,
+      resumed: jobs.length,
+    })
+  }
+
+  // If the request was already recorded, this is a repeat.
+  const original = await getNotification()
+  if (original) {
+    return resume(original)
+  }
+
+  // Find registrations whose keyword and regex filters exclude this proposal.
+  const { results: filtered = [] } = await env.DB.prepare(
+    'SELECT id, chatId, messageThreadId, filters FROM registrations WHERE chainId = ?1 AND dao = ?2 AND filters IS NOT NULL'
   )
     .bind(chainId, dao)
-    .all<Pick<RegistrationRow, 'chatId' | 'messageThreadId'>>()
-
-  // Fire webhooks in batches.
-  let succeeded = 0
-  for (let i = 0; i < registrations.length; i += BATCH_SIZE) {
-    const batch = registrations.slice(i, i + BATCH_SIZE)
-
-    const responses = await Promise.all(
-      batch.map(async ({ chatId, messageThreadId }) => {
-        for (let i = RETRIES; i > 0; i--) {
-          try {
-            const response = await fetch(
-              `https://api.telegram.org/bot${env.BOT_TOKEN}/sendMessage`,
-              {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  chat_id: Number(chatId),
-                  message_thread_id: messageThreadId
-                    ? Number(messageThreadId)
-                    : undefined,
-                  parse_mode: 'MarkdownV2',
-                  text,
-                  link_preview_options: {
-                    is_disabled: true,
-                  },
-                }),
-              }
-            )
-            console.log(
-              `Sent notification to Telegram with chat_id/message_thread_id ${chatId}/${messageThreadId} for ${chainId}/${dao}. Status: ${
-                response.status
-              }. Response: ${await response.text().catch(() => '')}`
-            )
-            return true
-          } catch (err) {
-            // If retries left, continue.
-            if (i > 1) {
-              continue
-            }
-
-            // If out of retries, log and remove webhook.
-            console.error(err)
-            console.error(
-              `Webhook for chat ID/message thread ID ${chatId}/${messageThreadId} failed 3 times for ${chainId}/${dao}. ${err}`
-            )
-            return false
-          }
-        }
-      })
-    )
+    .all<
+      Pick<RegistrationRow, 'id' | 'chatId' | 'messageThreadId'> & {
+        filters: string
+      }
+    >()
+  const excluded = filtered.filter(
+    ({ filters }) =>
+      !matchesFilters(
+        JSON.parse(filters) as ProposalFilter[],
+        `${proposalTitle}\n${description}`
+      )
+  )
+  const excludedIds = JSON.stringify(excluded.map(({ id }) => id))
 
-    succeeded += responses.filter(Boolean).length
+  // Track a delivery for each registration that has not filtered out this type
+  // or proposal, and hold the event for the next digest of registrations in
+  // digest mode. Deliveries and digests for muted registrations wait until the
+  // mute ends. Only send votes to registrations that chose them and whose
+  // minimum voting power they meet, and leave them out of digests. Mark
+  // excluded new proposals as reminded so no reminders are sent for them.
+  // Record the request in the same transaction, so if anything fails before it
+  // commits, a retry processes the request again.
+  try {
+    await env.DB.batch([
+      env.DB.prepare(
+        'INSERT INTO notifications (idempotencyKey, chainId, dao, type, proposalId) VALUES (?1, ?2, ?3, ?4, ?5)'
+      ).bind(idempotencyKey, chainId, dao, type, proposalId),
+      env.DB.prepare(
+        `INSERT OR IGNORE INTO deliveries (idempotencyKey, chatId, messageThreadId) SELECT ?1, chatId, messageThreadId FROM registrations WHERE chainId = ?2 AND dao = ?3 AND digest IS NULL AND ((notifyTypes IS NULL AND ?4 != '${NotifyType.VoteCast}') OR EXISTS (SELECT 1 FROM json_each(registrations.notifyTypes) WHERE value = ?4)) AND (?4 != '${NotifyType.VoteCast}' OR minVotingPower <= ?5) AND id NOT IN (SELECT value FROM json_each(?6))`
+      ).bind(
+        idempotencyKey,
+        chainId,
+        dao,
+        type,
+        payload.type === NotifyType.VoteCast ? payload.votingPower : 0,
+        excludedIds
+      ),
+      env.DB.prepare(
+        `INSERT INTO digest_events (chainId, dao, proposalId, type, daoName, daoUrl, title, url, chatId, messageThreadId) SELECT ?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, chatId, messageThreadId FROM registrations WHERE chainId = ?1 AND dao = ?2 AND digest IS NOT NULL AND (notifyTypes IS NULL OR EXISTS (SELECT 1 FROM json_each(registrations.notifyTypes) WHERE value = ?4)) AND ?4 != '${NotifyType.VoteCast}' AND id NOT IN (SELECT value FROM json_each(?9))`
+      ).bind(
+        chainId,
+        dao,
+        proposalId,
+        type,
+        daoName,
+        daoUrl,
+        proposalTitle,
+        url,
+        excludedIds
+      ),
+      ...(payload.type === NotifyType.ProposalCreated &&
+      payload.expiresAt !== undefined
+        ? excluded.map(({ chatId, messageThreadId }) =>
+            env.DB.prepare(
+              'INSERT INTO proposal_reminders (chainId, dao, proposalId, chatId, messageThreadId) VALUES (?1, ?2, ?3, ?4, ?5)'
+            ).bind(chainId, dao, proposalId, chatId, messageThreadId)
+          )
+        : []),
+    ])
+  } catch (err) {
+    // A concurrent request with the same idempotency key recorded it first.
+    const concurrent = await getNotification()
+    if (concurrent) {
+      return resume(concurrent)
+    }
+    throw err
   }
 
+  const jobs = await claimDeliveries([DeliveryStatus.Pending])
+
+  await env.DB.prepare(
+    'UPDATE notifications SET queued = ?2 WHERE idempotencyKey = ?1'
+  )
+    .bind(idempotencyKey, jobs.length)
+    .run()
+
   return respond(200, {
     success: true,
-    count: succeeded,
+    queued: jobs.length,
   })
 }
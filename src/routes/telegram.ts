@@ -1,16 +1,67 @@
 import { Request as IttyRequest } from 'itty-router'
-import { Env, RegistrationRow } from '../types'
+import { LANGUAGE_NAMES, MessageKey } from '../locales'
 import {
+  CallbackAction,
+  ChatExport,
+  ChatRow,
+  ChatSettingsRow,
+  ChatTopicRow,
+  DigestFrequency,
+  Env,
+  FilterMode,
+  Language,
+  ManageSessionRow,
+  NotifyType,
+  ProposalFilter,
+  QuietHoursMode,
+  RegistrationRow,
+  ScheduledMessageType,
+  UpdateMode,
+} from '../types'
+import {
+  DEFAULT_DESCRIPTION_LENGTH,
+  DEFAULT_LANGUAGE,
+  DaoInfo,
+  MAX_FILTERS,
+  Message,
+  MessageValue,
+  MessageValues,
+  TelegramInlineKeyboardMarkup,
+  TemplateName,
+  callTelegram,
+  deleteChatRegistrations,
+  deleteDaoRegistration,
+  downloadTelegramFile,
+  encodeCallbackData,
   escapeMarkdownV2,
-  getDaoInfo,
+  escapeMarkdownV2Url,
+  formatTimeOfDay,
+  getBotUsername,
+  getCachedDaoInfo,
+  getDefaultHeaderTemplate,
+  getUnknownPlaceholders,
+  isChatAdmin,
+  isTranslationOf,
+  migrateChatRegistrations,
   objectMatchesStructure,
+  parseCallbackData,
+  parseLanguage,
+  parseTimeOfDay,
+  parseTimeZone,
   respond,
   respondError,
+  sendTelegramDocument,
+  translate,
+  translateMarkdown,
+  validateFilterPattern,
+  validateSchema,
 } from '../utils'
 
 type TelegramUser = {
   id: number
   username: string
+  // IETF language tag of the user's language, if known
+  language_code?: string
 }
 
 type TelegramChat = {
@@ -33,12 +84,46 @@ type TelegramChatMember = {
 )
 
 type TelegramMessage = {
+  message_id: number
   // will be defined if sent in a forum topic
   message_thread_id?: number
+  is_topic_message?: boolean
+  // defined in the service message that starts a forum topic, which messages
+  // in the topic reply to
+  forum_topic_created?: {
+    name: string
+  }
   chat: TelegramChat
-  from: TelegramUser
-  text: string
+  // missing in channel posts
+  from?: TelegramUser
+  // defined when sent on behalf of a chat, such as in channel posts and by
+  // anonymous group admins
+  sender_chat?: TelegramChat
+  // missing in messages without text, like files, which have a caption
+  text?: string
+  caption?: string
+  // https://core.telegram.org/bots/api#document
+  document?: {
+    file_id: string
+    file_name?: string
+    file_size?: number
+  }
   reply_to_message?: TelegramMessage
+  // defined when a group is upgraded to a supergroup, which changes its ID.
+  // migrate_to_chat_id is sent in the old group, and migrate_from_chat_id is
+  // sent in the new supergroup.
+  migrate_to_chat_id?: number
+  migrate_from_chat_id?: number
+}
+
+// https://core.telegram.org/bots/api#callbackquery
+type TelegramCallbackQuery = {
+  id: string
+  from: TelegramUser
+  // the message with the pressed button. leave it as not optional for easy
+  // typing, even though it is missing for very old messages.
+  message: TelegramMessage
+  data: string
 }
 
 // https://core.telegram.org/bots/api#update
@@ -51,22 +136,358 @@ type TelegramWebhookData = {
   // When a message is sent to the bot (command, reply, or private message)
   message: TelegramMessage
 
+  // When a message is posted in a channel the bot is an admin of
+  channel_post: TelegramMessage
+
   // When the chat membership status changes
   my_chat_member: {
     chat: TelegramChat
+    from: TelegramUser
     old_chat_member: TelegramChatMember
     new_chat_member: TelegramChatMember
   }
+
+  // When an inline keyboard button is pressed
+  callback_query: TelegramCallbackQuery
+}
+
+// Short names used in bot commands for each notify type.
+const NOTIFY_TYPE_NAMES: Record<NotifyType, string> = {
+  [NotifyType.ProposalCreated]: 'created',
+  [NotifyType.ProposalExecuted]: 'executed',
+  [NotifyType.ProposalExecutionFailed]: 'failed',
+  [NotifyType.ProposalClosed]: 'closed',
+  [NotifyType.ProposalVetoed]: 'vetoed',
+  [NotifyType.ProposalVetoTimelock]: 'timelock',
+  [NotifyType.VoteCast]: 'votes',
 }
 
-const BOT_USERNAME = 'dao_dao_notifier_bot'
-const REPLY_ADD_INSTRUCTIONS =
-  "Reply to this message with the DAO's address or a link to its page to start tracking it."
-const REPLY_REMOVE_INSTRUCTIONS =
-  "Reply to this message with the DAO's address or a link to its page to stop tracking it."
+// Commands listed in the help message, with their descriptions.
+const HELP_COMMANDS: [string, MessageKey][] = [
+  ['add', 'helpAdd'],
+  ['remove', 'helpRemove'],
+  ['list', 'helpList'],
+  ['events', 'helpEvents'],
+  ['updates', 'helpUpdates'],
+  ['reminders', 'helpReminders'],
+  ['votes', 'helpVotes'],
+  ['digest', 'helpDigest'],
+  ['mute', 'helpMute'],
+  ['unmute', 'helpUnmute'],
+  ['quiet', 'helpQuiet'],
+  ['filters', 'helpFilters'],
+  ['template', 'helpTemplate'],
+  ['language', 'helpLanguage'],
+  ['manage', 'helpManage'],
+  ['export', 'helpExport'],
+  ['import', 'helpImport'],
+  ['help', 'helpHelp'],
+]
+
+// Short names used in bot commands for each message template.
+const TEMPLATE_NAMES: Record<TemplateName, string> = {
+  ...NOTIFY_TYPE_NAMES,
+  [ScheduledMessageType.Reminder]: 'reminder',
+}
+
+// Limits for custom message templates.
+const MAX_TEMPLATE_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 2000
+
+// DAOs that can be added, removed, or imported at once.
+const MAX_BULK_DAOS = 50
+
+// Files from /export are small, so larger files are not downloaded.
+const MAX_IMPORT_FILE_SIZE = 64 * 1024
+
+// Chats listed when picking a chat to manage from a private chat.
+const MAX_PICKER_CHATS = 20
+
+// Reminders can be sent up to a week before voting closes.
+const MAX_REMINDER_HOURS = 7 * 24
+
+// Mutes without a duration last until the DAO is unmuted.
+const MUTED_INDEFINITELY = '9999-12-31 23:59:59'
+const MAX_MUTE_DAYS = 365
+
+// Units of mute durations, in milliseconds.
+const DURATION_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+}
 
 const NO_RESPONSE = respond(200)
 
+// Extract a DAO address from an address or a link to its page on one of the
+// UI hosts, optionally with a chain prefix in the path, such as
+// `daodao.zone/dao/<address>` or `daodao.zone/<chain>/dao/<address>`.
+const parseDao = (text: string, uiHosts: string[]): string | undefined => {
+  const [arg = ''] = text.trim().split(/\s+/)
+
+  if (uiHosts.length > 0) {
+    const hosts = uiHosts
+      .map((host) => host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|')
+    const address = arg.match(
+      new RegExp(
+        `^(?:https?://)?(?:www\\.)?(?:${hosts})(?:/[\\w-]+)?/dao/([a-zA-Z0-9]+)`,
+        'i'
+      )
+    )?.[1]
+    if (address) {
+      return address
+    }
+  }
+
+  return arg.match(/^[a-zA-Z0-9]+$/)?.[0]
+}
+
+// Parse a file from /export, returning why it is invalid if it is.
+const parseChatExport = (text: string): ChatExport | Message => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { key: 'importNotExport' }
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { key: 'importNotExport' }
+  }
+
+  const {
+    version,
+    daos,
+    templates = null,
+    descriptionLength = null,
+  } = data as Record<string, unknown>
+  if (version !== 1 || !Array.isArray(daos)) {
+    return { key: 'importNewerVersion' }
+  }
+  if (daos.length > MAX_BULK_DAOS) {
+    return { key: 'importTooMany', values: { max: MAX_BULK_DAOS } }
+  }
+
+  const invalidDaoIndex = daos.findIndex((dao) => {
+    if (!dao || typeof dao !== 'object' || Array.isArray(dao)) {
+      return true
+    }
+
+    const {
+      reminderHours,
+      notifyTypes,
+      updateMode,
+      digest,
+      filters = null,
+    } = dao
+    return (
+      Object.keys(
+        validateSchema(dao, {
+          chainId: { type: 'string' },
+          dao: { type: 'string' },
+          minVotingPower: { type: 'number', min: 0, max: 100 },
+        })
+      ).length > 0 ||
+      !/^[a-zA-Z0-9]+$/.test(dao.dao) ||
+      (reminderHours !== null &&
+        (!Number.isInteger(reminderHours) ||
+          reminderHours < 1 ||
+          reminderHours > MAX_REMINDER_HOURS)) ||
+      (notifyTypes !== null &&
+        (!Array.isArray(notifyTypes) ||
+          !notifyTypes.every((type) =>
+            Object.values(NotifyType).includes(type)
+          ))) ||
+      !Object.values(UpdateMode).includes(updateMode) ||
+      (digest !== null && !Object.values(DigestFrequency).includes(digest)) ||
+      (filters !== null &&
+        (!Array.isArray(filters) ||
+          filters.length > MAX_FILTERS ||
+          !filters.every(
+            (filter) =>
+              filter &&
+              Object.values(FilterMode).includes(filter.mode) &&
+              typeof filter.pattern === 'string' &&
+              !validateFilterPattern(filter.pattern)
+          )))
+    )
+  })
+  if (invalidDaoIndex > -1) {
+    return { key: 'importInvalidDao', values: { index: invalidDaoIndex + 1 } }
+  }
+
+  if (
+    templates !== null &&
+    (typeof templates !== 'object' ||
+      Array.isArray(templates) ||
+      Object.entries(templates).some(
+        ([name, template]) =>
+          !(name in TEMPLATE_NAMES) ||
+          typeof template !== 'string' ||
+          template.length > MAX_TEMPLATE_LENGTH
+      ))
+  ) {
+    return { key: 'importInvalidTemplates' }
+  }
+  if (
+    descriptionLength !== null &&
+    (typeof descriptionLength !== 'number' ||
+      !Number.isInteger(descriptionLength) ||
+      descriptionLength < 0 ||
+      descriptionLength > MAX_DESCRIPTION_LENGTH)
+  ) {
+    return { key: 'importInvalidDescriptionLength' }
+  }
+
+  return {
+    version,
+    daos,
+    templates: templates as Record<string, string> | null,
+    descriptionLength,
+  }
+}
+
+// Match a notify type by its short name or full value.
+const parseNotifyType = (text: string): NotifyType | undefined =>
+  Object.values(NotifyType).find(
+    (type) =>
+      text.toLowerCase() === type ||
+      text.toLowerCase() === NOTIFY_TYPE_NAMES[type]
+  )
+
+// Describe each update mode in bot replies.
+const UPDATE_MODE_DESCRIPTIONS: Record<UpdateMode, MessageKey> = {
+  [UpdateMode.Edit]: 'updateModeEdit',
+  [UpdateMode.Reply]: 'updateModeReply',
+  [UpdateMode.New]: 'updateModeNew',
+}
+
+// Describe a registration's reminder lead time.
+const describeReminderHours = (
+  reminderHours: number | null,
+  language: Language
+): string =>
+  reminderHours === null
+    ? translate(language, 'remindersOff')
+    : translate(
+        language,
+        reminderHours === 1 ? 'remindersOne' : 'remindersOther',
+        { hours: reminderHours }
+      )
+
+// Parse a mute duration like `30m`, `8h`, `2d`, or `1w` into milliseconds.
+const parseDuration = (text: string): number | undefined => {
+  const match = text.match(/^(\d+)([mhdw])$/i)
+  const duration =
+    match && Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()]
+  return duration && duration <= MAX_MUTE_DAYS * DURATION_UNITS.d
+    ? duration
+    : undefined
+}
+
+// Whether a registration's mute is in effect.
+const isMuted = (mutedUntil: string | null): mutedUntil is string =>
+  // SQLite datetimes are UTC without a timezone.
+  !!mutedUntil && Date.parse(mutedUntil.replace(' ', 'T') + 'Z') > Date.now()
+
+// Describe a registration's mute.
+const describeMute = (mutedUntil: string | null, language: Language): string =>
+  !isMuted(mutedUntil)
+    ? translate(language, 'notMuted')
+    : mutedUntil === MUTED_INDEFINITELY
+    ? translate(language, 'mutedIndefinitely')
+    : translate(language, 'mutedUntil', { time: mutedUntil.slice(0, 16) })
+
+// Describe a chat's quiet hours.
+const describeQuietHours = (
+  settings: Pick<
+    ChatSettingsRow,
+    'quietHoursStart' | 'quietHoursEnd' | 'timeZone' | 'quietHoursMode'
+  > | null,
+  language: Language
+): string =>
+  !settings ||
+  settings.quietHoursStart === null ||
+  settings.quietHoursEnd === null
+    ? translate(language, 'quietHoursOff')
+    : translate(
+        language,
+        settings.quietHoursMode === QuietHoursMode.Silent
+          ? 'quietHoursSilent'
+          : 'quietHoursHold',
+        {
+          start: formatTimeOfDay(settings.quietHoursStart),
+          end: formatTimeOfDay(settings.quietHoursEnd),
+          timeZone: settings.timeZone,
+        }
+      )
+
+// Describe a registration's digest setting.
+const describeDigest = (
+  digest: DigestFrequency | null,
+  language: Language
+): string =>
+  translate(
+    language,
+    digest === DigestFrequency.Daily
+      ? 'digestDaily'
+      : digest === DigestFrequency.Weekly
+      ? 'digestWeekly'
+      : 'digestOff'
+  )
+
+// Describe a registration's minimum voting power for vote notifications.
+const describeMinVotingPower = (
+  minVotingPower: number,
+  language: Language
+): string =>
+  minVotingPower > 0
+    ? translate(language, 'votesMinimum', { percent: minVotingPower })
+    : translate(language, 'votesAll')
+
+// Describe a registration's proposal filters.
+const describeFilters = (
+  filters: string | null,
+  language: Language
+): string => {
+  const parsed = filters ? (JSON.parse(filters) as ProposalFilter[]) : []
+  const list = (mode: FilterMode) =>
+    parsed
+      .filter((filter) => filter.mode === mode)
+      .map(({ pattern }) => `"${pattern}"`)
+      .join(translate(language, 'filtersOr'))
+  const include = list(FilterMode.Include)
+  const exclude = list(FilterMode.Exclude)
+
+  return include && exclude
+    ? translate(language, 'filtersIncludeExclude', { include, exclude })
+    : include
+    ? translate(language, 'filtersInclude', { include })
+    : exclude
+    ? translate(language, 'filtersExclude', { exclude })
+    : translate(language, 'filtersNone')
+}
+
+// Describe a registration's stored notify types filter. Without one, every
+// type but votes is sent.
+const describeNotifyTypes = (
+  notifyTypes: string | null,
+  language: Language
+): string => {
+  if (!notifyTypes) {
+    return translate(language, 'eventsDefault')
+  }
+
+  const types = JSON.parse(notifyTypes) as NotifyType[]
+  return types.length === Object.values(NotifyType).length
+    ? translate(language, 'eventsAll')
+    : types.length > 0
+    ? types.map((type) => NOTIFY_TYPE_NAMES[type] ?? type).join(', ')
+    : translate(language, 'eventsNone')
+}
+
 export const telegram = async (
   request: IttyRequest & Request,
   env: Env
@@ -92,15 +513,43 @@ export const telegram = async (
     },
   })
 
+  const isChannelPost =
+    objectMatchesStructure(data, {
+      channel_post: { chat: { id: {} } },
+    }) &&
+    (!!data.channel_post.text || !!data.channel_post.document)
+
   const isMessage =
+    isChannelPost ||
+    (objectMatchesStructure(data, {
+      message: { chat: { id: {} } },
+    }) &&
+      (!!data.message.text || !!data.message.document))
+
+  // channel posts are handled like messages
+  const message = isChannelPost ? data.channel_post : data.message
+
+  const isMigration =
     objectMatchesStructure(data, {
-      message: { chat: { id: {} }, text: {} },
-    }) && !!data.message.text
+      message: { chat: { id: {} } },
+    }) &&
+    (!!data.message.migrate_to_chat_id || !!data.message.migrate_from_chat_id)
+
+  const isCallbackQuery = objectMatchesStructure(data, {
+    callback_query: {
+      id: {},
+      from: { id: {} },
+      message: { message_id: {}, chat: { id: {} } },
+      data: {},
+    },
+  })
 
   const chat = isBotMembershipChange
     ? data.my_chat_member.chat
-    : isMessage
-    ? data.message.chat
+    : isMessage || isMigration
+    ? message.chat
+    : isCallbackQuery
+    ? data.callback_query.message.chat
     : undefined
 
   if (!chat) {
@@ -110,8 +559,51 @@ export const telegram = async (
 
   // no message thread ID for membership changes
   const messageThreadId = isMessage
-    ? data.message.message_thread_id ?? undefined
+    ? message.message_thread_id ?? undefined
+    : isCallbackQuery
+    ? data.callback_query.message.message_thread_id ?? undefined
+    : undefined
+
+  // In private chats, an admin can manage a group or channel instead, so
+  // commands and buttons apply to that chat and topic.
+  const session =
+    chat.type === 'private' && (isMessage || isCallbackQuery)
+      ? await env.DB.prepare(
+          'SELECT chatId, messageThreadId, dao FROM manage_sessions WHERE userId = ?1'
+        )
+          .bind(BigInt(chat.id).toString())
+          .first<Omit<ManageSessionRow, 'userId'>>()
+      : null
+  const isManagingOtherChat = !!session?.chatId
+  const targetChatId = session?.chatId ?? BigInt(chat.id).toString()
+  const targetMessageThreadId = isManagingOtherChat
+    ? session?.messageThreadId ?? null
+    : messageThreadId !== undefined
+    ? BigInt(messageThreadId).toString()
+    : null
+
+  // Reply in the chat's language, or the language of the user sending a
+  // command or pressing a button if the chat has not chosen one.
+  const user = isBotMembershipChange
+    ? data.my_chat_member.from
+    : isMessage
+    ? message.from
+    : isCallbackQuery
+    ? data.callback_query.from
     : undefined
+  const userLanguage = parseLanguage(user?.language_code)
+  const chatSettings = await env.DB.prepare(
+    'SELECT language FROM chat_settings WHERE chatId = ?1'
+  )
+    .bind(BigInt(chat.id).toString())
+    .first<Pick<ChatSettingsRow, 'language'>>()
+  const language = chatSettings?.language ?? userLanguage ?? DEFAULT_LANGUAGE
+
+  // Translate a message into the reply language, as plain text or MarkdownV2.
+  const t = (key: MessageKey, values?: MessageValues) =>
+    translate(language, key, values)
+  const tm = (key: MessageKey, values?: MessageValues) =>
+    translateMarkdown(language, key, values)
 
   const respondPlain = (text: string) => {
     return respond(200, {
@@ -121,7 +613,10 @@ export const telegram = async (
       text,
     })
   }
-  const respondMarkdown = (text: string) => {
+  const respondMarkdown = (
+    text: string,
+    replyMarkup?: TelegramInlineKeyboardMarkup
+  ) => {
     return respond(200, {
       method: 'sendMessage',
       chat_id: chat.id,
@@ -131,29 +626,474 @@ export const telegram = async (
       link_preview_options: {
         is_disabled: true,
       },
+      reply_markup: replyMarkup,
     })
   }
 
+  const botUsername = await getBotUsername(env).catch((err) => {
+    console.error('failed to get bot username', err)
+    return null
+  })
+  // Telegram retries updates that fail.
+  if (!botUsername) {
+    return respondError(500, 'Failed to get bot username.')
+  }
+
+  const uiHosts = env.UI_HOSTS.split(',')
+    .map((host) => host.trim())
+    .filter(Boolean)
+
   // in private chats, no need to mention the bot. in groups, commands need to
   // directly mention the bot to work.
-  const suffix =
-    chat.type === 'private' ? '' : '@' + escapeMarkdownV2(BOT_USERNAME)
+  const suffix = chat.type === 'private' ? '' : '@' + botUsername
 
   const HELP_TEXT =
-    `Here's how to use me:\n\n` +
-    [
-      `/add${suffix} \\- start tracking a DAO`,
-      `/remove${suffix} \\- stop tracking a DAO`,
-      `/list${suffix} \\- list your tracked DAOs`,
-      `/help${suffix} \\- see this message again`,
-    ].join('\n')
+    `${tm('helpIntro')}\n\n` +
+    HELP_COMMANDS.map(
+      ([command, key]) =>
+        `/${command}${escapeMarkdownV2(suffix)} \\- ${tm(key)}`
+    ).join('\n')
+
+  const eventNames = Object.values(NOTIFY_TYPE_NAMES)
+    .map((name) => `\`${name}\``)
+    .join(', ')
+  const EVENTS_USAGE = tm('eventsUsage', {
+    suffix,
+    events: { markdown: eventNames },
+  })
+
+  const updateModes = Object.values(UpdateMode)
+    .map((mode) => `\`${mode}\``)
+    .join(', ')
+  const UPDATES_USAGE = tm('updatesUsage', {
+    suffix,
+    modes: { markdown: updateModes },
+  })
+
+  const REMINDERS_USAGE = tm('remindersUsage', { suffix })
+
+  const DIGEST_USAGE = tm('digestUsage', { suffix })
+
+  const MUTE_USAGE = tm('muteUsage', { suffix })
+
+  const QUIET_USAGE = tm('quietUsage', { suffix })
+
+  const FILTERS_USAGE = tm('filtersUsage', { suffix })
+
+  const VOTES_USAGE = tm('votesUsage', { suffix })
+
+  const templateNames = Object.values(TEMPLATE_NAMES)
+    .map((name) => `\`${name}\``)
+    .join(', ')
+  const TEMPLATE_USAGE = tm('templateUsage', {
+    suffix,
+    templates: { markdown: templateNames },
+  })
+
+  const languageNames = Object.values(Language)
+    .map(
+      (code) => `\`${code}\` \\(${escapeMarkdownV2(LANGUAGE_NAMES[code])}\\)`
+    )
+    .join(', ')
+  const LANGUAGE_USAGE = tm('languageUsage', {
+    suffix,
+    languages: { markdown: languageNames },
+  })
+
+  const NOT_TRACKING_ANY = tm('notTrackingAny', { suffix })
+
+  const WELCOME_GROUP_MESSAGE = tm('welcomeGroup', {
+    help: { markdown: HELP_TEXT },
+  })
+
+  const WELCOME_PRIVATE_MESSAGE = tm('welcomePrivate', {
+    help: { markdown: HELP_TEXT },
+  })
+
+  // Load the registrations for the target chat and topic.
+  const loadRegistrations = async <K extends keyof RegistrationRow>(
+    ...columns: K[]
+  ) => {
+    const { results = [] } = await env.DB.prepare(
+      `SELECT ${['id', 'dao', ...columns].join(
+        ', '
+      )} FROM registrations WHERE chatId = ?1 AND messageThreadId IS ?2`
+    )
+      .bind(targetChatId, targetMessageThreadId)
+      .all<Pick<RegistrationRow, 'id' | 'dao' | K>>()
+    return results
+  }
+
+  // Send notifications to a chat in the language of the user who first tracks
+  // a DAO there, until the chat picks one with /language.
+  const rememberLanguage = async (chatId: string) => {
+    if (!userLanguage) {
+      return
+    }
+
+    await env.DB.prepare(
+      'INSERT INTO chat_settings (chatId, language) VALUES (?1, ?2) ON CONFLICT (chatId) DO UPDATE SET language = ?2, updatedAt = CURRENT_TIMESTAMP WHERE language IS NULL'
+    )
+      .bind(chatId, userLanguage)
+      .run()
+  }
+
+  // Update a setting for every DAO tracked in the target chat and topic, or
+  // only one DAO if provided.
+  const updateRegistrations = async (
+    column: keyof RegistrationRow,
+    value: string | number | null,
+    dao?: string
+  ) => {
+    await env.DB.prepare(
+      `UPDATE registrations SET ${column} = ?1, updatedAt = CURRENT_TIMESTAMP WHERE chatId = ?2 AND (?3 IS NULL OR dao = ?3) AND messageThreadId IS ?4`
+    )
+      .bind(value, targetChatId, dao ?? null, targetMessageThreadId)
+      .run()
+  }
+
+  // Link to a DAO by name, or show its address if its info is unavailable.
+  const renderDao = async (dao: string) => {
+    const info = await getCachedDaoInfo(env, dao)
+    return info
+      ? `[${escapeMarkdownV2(info.value.config.name)}](${escapeMarkdownV2Url(
+          info.url
+        )})`
+      : `\`${dao}\``
+  }
+
+  // Whether a user is an admin or owner of the target chat. Anyone can manage
+  // their own private chat.
+  const isAdmin = async (userId: number): Promise<boolean> =>
+    (chat.type === 'private' && !isManagingOtherChat) ||
+    (await isChatAdmin(env, targetChatId, userId))
+
+  // Whether a message was sent by someone who can manage this chat. Only a
+  // channel's admins can post in it, and anonymous group admins send messages
+  // on behalf of the group, so messages sent on behalf of this chat count.
+  const isFromAdmin = async ({
+    from,
+    sender_chat: senderChat,
+  }: TelegramMessage): Promise<boolean> =>
+    senderChat?.id === chat.id || (!!from && (await isAdmin(from.id)))
+
+  // Track a DAO in the target chat and topic, with settings if provided, which
+  // also update it if it is already tracked. Returns the DAO's info, or null if
+  // it cannot be loaded, and whether it was already tracked.
+  const trackDao = async (
+    dao: string,
+    settings?: Pick<
+      RegistrationRow,
+      | 'notifyTypes'
+      | 'updateMode'
+      | 'reminderHours'
+      | 'digest'
+      | 'minVotingPower'
+      | 'filters'
+    >
+  ): Promise<{ info: DaoInfo | null; existed: boolean }> => {
+    const info = await getCachedDaoInfo(env, dao)
+    if (!info) {
+      return { info, existed: false }
+    }
+
+    const existing = await env.DB.prepare(
+      'SELECT id FROM registrations WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId IS ?4'
+    )
+      .bind(info.chainId, dao, targetChatId, targetMessageThreadId)
+      .first<Pick<RegistrationRow, 'id'>>()
+
+    if (!existing) {
+      const id = await env.DB.prepare(
+        'INSERT INTO registrations (chainId, dao, chatId, messageThreadId) VALUES (?1, ?2, ?3, ?4) RETURNING id'
+      )
+        .bind(info.chainId, dao, targetChatId, targetMessageThreadId)
+        .first<number>('id')
+      if (settings && id !== null) {
+        await updateRegistrationSettings(id, settings)
+      }
+      await rememberLanguage(targetChatId)
+    } else if (settings) {
+      await updateRegistrationSettings(existing.id, settings)
+    }
+
+    return { info, existed: !!existing }
+  }
+
+  // Set the settings of a registration.
+  const updateRegistrationSettings = async (
+    id: number,
+    settings: Pick<
+      RegistrationRow,
+      | 'notifyTypes'
+      | 'updateMode'
+      | 'reminderHours'
+      | 'digest'
+      | 'minVotingPower'
+      | 'filters'
+    >
+  ) => {
+    await env.DB.prepare(
+      'UPDATE registrations SET notifyTypes = ?2, updateMode = ?3, reminderHours = ?4, digest = ?5, minVotingPower = ?6, filters = ?7, updatedAt = CURRENT_TIMESTAMP WHERE id = ?1'
+    )
+      .bind(
+        id,
+        settings.notifyTypes,
+        settings.updateMode,
+        settings.reminderHours,
+        settings.digest,
+        settings.minVotingPower,
+        settings.filters
+      )
+      .run()
+  }
+
+  // Stop tracking a DAO in the target chat and topic. Returns the DAO's info,
+  // or null if it cannot be loaded, and whether it was tracked.
+  const untrackDao = async (
+    dao: string
+  ): Promise<{ info: DaoInfo | null; existed: boolean }> => {
+    const info = await getCachedDaoInfo(env, dao)
+    if (!info) {
+      return { info, existed: false }
+    }
+
+    const existing = await env.DB.prepare(
+      'SELECT id FROM registrations WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId IS ?4'
+    )
+      .bind(info.chainId, dao, targetChatId, targetMessageThreadId)
+      .first()
+    if (existing) {
+      await deleteDaoRegistration(env, {
+        chainId: info.chainId,
+        dao,
+        chatId: targetChatId,
+        messageThreadId: targetMessageThreadId,
+      })
+    }
+
+    return { info, existed: !!existing }
+  }
+
+  // Summarize a bulk command, listing the DAOs in each non-empty group.
+  const renderBulkSummary = (
+    groups: [MessageKey, { dao: string; info: DaoInfo | null }[]][]
+  ): string =>
+    groups
+      .filter(([, results]) => results.length > 0)
+      .map(
+        ([title, results]) =>
+          `${tm(title)}:\n${results
+            .map(({ dao, info }) =>
+              info
+                ? `– [${escapeMarkdownV2(
+                    info.value.config.name
+                  )}](${escapeMarkdownV2Url(info.url)})`
+                : `– ${escapeMarkdownV2(dao)}`
+            )
+            .join('\n')}`
+      )
+      .join('\n\n')
+
+  // Remember group chats, channels, and forum topics, so admins can pick them
+  // when managing chats from a private chat.
+  const rememberChat = async (topicName?: string) => {
+    if (chat.type === 'private') {
+      return
+    }
+
+    const chatId = BigInt(chat.id).toString()
+    await env.DB.batch([
+      env.DB.prepare(
+        'INSERT INTO chats (chatId, type, title) VALUES (?1, ?2, ?3) ON CONFLICT (chatId) DO UPDATE SET type = ?2, title = ?3, updatedAt = CURRENT_TIMESTAMP'
+      ).bind(chatId, chat.type, chat.title),
+      ...(isMessage && message.is_topic_message && messageThreadId !== undefined
+        ? [
+            env.DB.prepare(
+              'INSERT INTO chat_topics (chatId, messageThreadId, name) VALUES (?1, ?2, ?3) ON CONFLICT (chatId, messageThreadId) DO UPDATE SET name = COALESCE(?3, name), updatedAt = CURRENT_TIMESTAMP'
+            ).bind(
+              chatId,
+              BigInt(messageThreadId).toString(),
+              topicName ?? null
+            ),
+          ]
+        : []),
+    ])
+  }
+
+  // Describe a chat and topic in replies.
+  const describeChat = async (
+    chatId: string,
+    messageThreadId: string | null
+  ): Promise<string> => {
+    if (chatId === BigInt(chat.id).toString()) {
+      return t('thisChat')
+    }
+
+    const row = await env.DB.prepare(
+      'SELECT c.title, t.name FROM chats c LEFT JOIN chat_topics t ON t.chatId = c.chatId AND t.messageThreadId IS ?2 WHERE c.chatId = ?1'
+    )
+      .bind(chatId, messageThreadId)
+      .first<Pick<ChatRow, 'title'> & Pick<ChatTopicRow, 'name'>>()
+
+    const title = row?.title ?? t('anotherChat')
+    return !messageThreadId
+      ? title
+      : row?.name
+      ? t('chatTopic', { title, topic: row.name })
+      : t('chatTopicNumber', { title, id: messageThreadId })
+  }
+
+  // Buttons to pick this private chat, or a group or channel where a user is
+  // an admin, for an action.
+  const renderChatPicker = async (
+    action: CallbackAction,
+    userId: number
+  ): Promise<TelegramInlineKeyboardMarkup> => {
+    // Chats the bot is in, where the user was an admin when last checked.
+    const { results: chats = [] } = await env.DB.prepare(
+      'SELECT c.chatId, c.title FROM chats c JOIN chat_admins a ON a.chatId = c.chatId WHERE EXISTS (SELECT 1 FROM json_each(a.adminIds) WHERE value = ?1) ORDER BY c.title LIMIT ?2'
+    )
+      .bind(userId, MAX_PICKER_CHATS)
+      .all<Pick<ChatRow, 'chatId' | 'title'>>()
+
+    // Confirm with up-to-date admin lists.
+    const isAdminOf = await Promise.all(
+      chats.map(({ chatId }) => isChatAdmin(env, chatId, userId))
+    )
+
+    return {
+      inline_keyboard: [
+        [
+          {
+            text: t('pickerThisChat'),
+            callback_data: encodeCallbackData(action),
+          },
+        ],
+        ...chats
+          .filter((_, index) => isAdminOf[index])
+          .map(({ chatId, title }) => [
+            { text: title, callback_data: encodeCallbackData(action, chatId) },
+          ]),
+      ],
+    }
+  }
 
-  const WELCOME_GROUP_MESSAGE = `Hello\\! I'll send a message when there are new proposals in DAOs you track\\. ${HELP_TEXT}\n\n_Only admins or owners can use the commands above_\\.`
+  // Buttons to pick a topic in a chat for an action, or null if the chat has
+  // no known topics.
+  const renderTopicPicker = async (
+    action: CallbackAction,
+    chatId: string
+  ): Promise<TelegramInlineKeyboardMarkup | null> => {
+    const { results: topics = [] } = await env.DB.prepare(
+      'SELECT messageThreadId, MAX(name) AS name FROM (SELECT messageThreadId, name FROM chat_topics WHERE chatId = ?1 UNION ALL SELECT messageThreadId, NULL FROM registrations WHERE chatId = ?1 AND messageThreadId IS NOT NULL) GROUP BY messageThreadId ORDER BY name, messageThreadId'
+    )
+      .bind(chatId)
+      .all<Pick<ChatTopicRow, 'messageThreadId' | 'name'>>()
+    if (topics.length === 0) {
+      return null
+    }
+
+    return {
+      inline_keyboard: [
+        // messages in the General topic have no message thread ID
+        [
+          {
+            text: t('topicGeneral'),
+            callback_data: encodeCallbackData(action, chatId, ''),
+          },
+        ],
+        ...topics.map(({ messageThreadId, name }) => [
+          {
+            text: name ?? t('topicNumber', { id: messageThreadId }),
+            callback_data: encodeCallbackData(action, chatId, messageThreadId),
+          },
+        ]),
+      ],
+    }
+  }
+
+  // Edit a message the bot sent in this chat.
+  const editMarkdown = async (
+    messageId: number,
+    text: string,
+    replyMarkup?: TelegramInlineKeyboardMarkup
+  ) => {
+    await callTelegram(env, 'editMessageText', {
+      chat_id: chat.id,
+      message_id: messageId,
+      parse_mode: 'MarkdownV2',
+      text,
+      reply_markup: replyMarkup,
+      link_preview_options: {
+        is_disabled: true,
+      },
+    })
+  }
+
+  // List the DAOs tracked in the target chat and topic, with buttons to manage
+  // each one.
+  const renderList = async (): Promise<{
+    text: string
+    replyMarkup?: TelegramInlineKeyboardMarkup
+  }> => {
+    const registrations = await loadRegistrations()
+    if (registrations.length === 0) {
+      return { text: NOT_TRACKING_ANY }
+    }
 
-  const WELCOME_PRIVATE_MESSAGE = `Hello\\! I'll send a message when there are new proposals in DAOs you track\\. You can add me to group chats to track proposals with others, or just use me in private\\. ${HELP_TEXT}`
+    const infos = await Promise.all(
+      registrations.map(({ dao }) => getCachedDaoInfo(env, dao))
+    )
+
+    const list = registrations
+      .map(({ dao }, index) => {
+        const info = infos[index]
+        return info
+          ? `– [${escapeMarkdownV2(
+              info.value.config.name
+            )}](${escapeMarkdownV2Url(info.url)})`
+          : `– ${escapeMarkdownV2(dao)}`
+      })
+      .join('\n')
+
+    return {
+      text: isManagingOtherChat
+        ? tm('trackingListIn', {
+            chat: await describeChat(targetChatId, targetMessageThreadId),
+            list: { markdown: list },
+          })
+        : tm('trackingList', { list: { markdown: list } }),
+      replyMarkup: {
+        inline_keyboard: registrations.map(({ id, dao }, index) => [
+          {
+            text: infos[index]?.value.config.name ?? dao,
+            callback_data: encodeCallbackData(CallbackAction.Settings, id),
+          },
+          {
+            text: t('buttonRemove'),
+            callback_data: encodeCallbackData(CallbackAction.Remove, id),
+          },
+        ]),
+      },
+    }
+  }
 
   try {
-    if (isBotMembershipChange) {
+    if (isMigration) {
+      const fromChatId = data.message.migrate_from_chat_id ?? chat.id
+      const toChatId = data.message.migrate_to_chat_id ?? chat.id
+
+      console.log(
+        `migrating registrations from chat ${fromChatId} to ${toChatId}`
+      )
+
+      await migrateChatRegistrations(
+        env,
+        BigInt(fromChatId).toString(),
+        BigInt(toChatId).toString()
+      )
+    } else if (isBotMembershipChange) {
       const { old_chat_member: oldChatMember, new_chat_member: newChatMember } =
         data.my_chat_member
 
@@ -166,9 +1106,7 @@ export const telegram = async (
           `removing all registrations for chat ${chat.id} since bot now has ${newChatMember.status} status`
         )
 
-        await env.DB.prepare('DELETE FROM registrations WHERE chatId = ?1')
-          .bind(BigInt(chat.id).toString())
-          .run()
+        await deleteChatRegistrations(env, BigInt(chat.id).toString())
       }
       // if bot is restricted and cannot send messages, complain
       else if (
@@ -189,220 +1127,1322 @@ export const telegram = async (
       ) {
         console.log(`bot is added to chat ${chat.id}`)
 
-        return respondMarkdown(
-          chat.type === 'private'
-            ? WELCOME_PRIVATE_MESSAGE
-            : WELCOME_GROUP_MESSAGE
-        )
-      }
-    } else if (isMessage) {
-      const text = data.message.text
-
-      // if not a private chat, verify that sender is admin or owner.
-      if (chat.type !== 'private') {
-        const admins = await fetch(
-          `https://api.telegram.org/bot${env.BOT_TOKEN}/getChatAdministrators?chat_id=${chat.id}`
+        // Load the admins now so the chat can be managed from their private
+        // chats right away.
+        await rememberChat()
+        await isChatAdmin(
+          env,
+          BigInt(chat.id).toString(),
+          data.my_chat_member.from.id
         )
-          .then((r) =>
-            r.json<{
-              ok: boolean
-              result: TelegramChatMember[]
-            }>()
-          )
-          .catch(() => ({ ok: false, result: [] }))
-
-        const isAdmin =
-          !!admins.ok &&
-          admins.result.some(
-            (admin) =>
-              admin.user.id === data.message.from.id &&
-              (admin.status === 'administrator' || admin.status === 'creator')
-          )
 
-        // Do nothing if not admin. Sending an error message means non-admins
-        // could spam the chat with error messages.
-        if (!isAdmin) {
+        // don't post the welcome message to a channel's subscribers
+        if (chat.type === 'channel') {
           return NO_RESPONSE
         }
-      }
 
-      if (text.startsWith('/start')) {
         return respondMarkdown(
           chat.type === 'private'
             ? WELCOME_PRIVATE_MESSAGE
             : WELCOME_GROUP_MESSAGE
         )
       }
+    } else if (isCallbackQuery) {
+      const {
+        id: callbackQueryId,
+        from,
+        message,
+        data: callbackData,
+      } = data.callback_query
 
-      if (text.startsWith('/help')) {
-        return respondMarkdown(HELP_TEXT)
+      // Answer the button press, optionally showing a short notification.
+      const answer = (text?: string) =>
+        respond(200, {
+          method: 'answerCallbackQuery',
+          callback_query_id: callbackQueryId,
+          text,
+        })
+
+      const callback = parseCallbackData(callbackData)
+      if (!callback) {
+        return answer()
       }
 
-      if (text.startsWith('/list')) {
-        const { results: registrations = [] } = await env.DB.prepare(
-          `SELECT dao FROM registrations WHERE chatId = ?1 AND messageThreadId ${
-            messageThreadId !== undefined ? '= ?2' : 'IS NULL'
-          }`
+      // Pick a chat in a private chat, to manage it or to track the DAO from a
+      // deep link in it. The user must be an admin of the picked chat.
+      if (
+        chat.type === 'private' &&
+        (callback.action === CallbackAction.Manage ||
+          callback.action === CallbackAction.Track)
+      ) {
+        const [pickedChatId, pickedMessageThreadId] = callback.args
+        if (pickedChatId) {
+          if (!(await isChatAdmin(env, pickedChatId, from.id))) {
+            return answer(t('notAdminOfChat'))
+          }
+
+          // pick a topic next if the chat has any
+          if (pickedMessageThreadId === undefined) {
+            const topicPicker = await renderTopicPicker(
+              callback.action,
+              pickedChatId
+            )
+            if (topicPicker) {
+              await editMarkdown(
+                message.message_id,
+                tm('pickerWhichTopic'),
+                topicPicker
+              )
+              return answer()
+            }
+          }
+        }
+
+        const userId = BigInt(chat.id).toString()
+        const toChatId = pickedChatId || null
+        const toMessageThreadId = (toChatId && pickedMessageThreadId) || null
+        const chatName = await describeChat(
+          toChatId ?? userId,
+          toMessageThreadId
         )
-          .bind(
-            BigInt(chat.id).toString(),
-            ...(messageThreadId !== undefined
-              ? [BigInt(messageThreadId).toString()]
-              : [])
+
+        if (callback.action === CallbackAction.Manage) {
+          await env.DB.prepare(
+            'INSERT INTO manage_sessions (userId, chatId, messageThreadId) VALUES (?1, ?2, ?3) ON CONFLICT (userId) DO UPDATE SET chatId = ?2, messageThreadId = ?3, updatedAt = CURRENT_TIMESTAMP'
           )
-          .all<Pick<RegistrationRow, 'dao'>>()
+            .bind(userId, toChatId, toMessageThreadId)
+            .run()
 
-        if (registrations.length === 0) {
-          return respondMarkdown(
-            `You're not tracking any DAOs\\.\n\nSend /add${suffix} to start tracking a DAO\\.`
+          await editMarkdown(
+            message.message_id,
+            toChatId
+              ? tm('manageOtherChat', { chat: chatName })
+              : tm('manageThisChat')
           )
+          return answer()
         }
 
-        const registrationList = await Promise.all(
-          registrations.map(async ({ dao }) => {
-            const info = await getDaoInfo(dao)
-            return info
-              ? `– [${escapeMarkdownV2(info.value.config.name)}](${info.url})`
-              : `– ${dao}`
-          })
+        const dao = session?.dao
+        const info = dao && (await getCachedDaoInfo(env, dao))
+        if (!dao || !info) {
+          return answer(t('trackOpenLinkAgain'))
+        }
+
+        const existing = await env.DB.prepare(
+          'SELECT id FROM registrations WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId IS ?4'
         )
+          .bind(info.chainId, dao, toChatId ?? userId, toMessageThreadId)
+          .first()
+        await env.DB.batch([
+          ...(existing
+            ? []
+            : [
+                env.DB.prepare(
+                  'INSERT INTO registrations (chainId, dao, chatId, messageThreadId) VALUES (?1, ?2, ?3, ?4)'
+                ).bind(
+                  info.chainId,
+                  dao,
+                  toChatId ?? userId,
+                  toMessageThreadId
+                ),
+              ]),
+          env.DB.prepare(
+            'UPDATE manage_sessions SET dao = NULL, updatedAt = CURRENT_TIMESTAMP WHERE userId = ?1'
+          ).bind(userId),
+        ])
+        if (!existing) {
+          await rememberLanguage(toChatId ?? userId)
+        }
 
-        return respondMarkdown(
-          `You're tracking the following DAOs:\n\n${registrationList.join(
-            '\n'
-          )}`
+        const renderedDao = await renderDao(dao)
+        await editMarkdown(
+          message.message_id,
+          tm(existing ? 'alreadyTrackingIn' : 'trackedIn', {
+            chat: chatName,
+            dao: { markdown: renderedDao },
+          })
         )
+        return answer()
       }
 
-      let isAdd = text.startsWith('/add')
-      let isRemove = text.startsWith('/remove')
+      // Buttons follow the same admin rule as commands. Notifications are not
+      // sent to the chat, so non-admins cannot spam it.
+      if (!(await isAdmin(from.id))) {
+        return answer(t('onlyAdmins'))
+      }
 
-      // if neither add nor remove command detected, auto-detect based on reply
-      if (!isAdd && !isRemove) {
-        const replyToMessage = data.message.reply_to_message
+      const registrationId = Number(callback.args[0])
+      const registration = Number.isInteger(registrationId)
+        ? await env.DB.prepare(
+            'SELECT * FROM registrations WHERE id = ?1 AND chatId = ?2'
+          )
+            .bind(registrationId, targetChatId)
+            .first<RegistrationRow>()
+        : null
+      if (!registration) {
+        return answer(t('noLongerTrackingThis'))
+      }
 
-        if (!replyToMessage || replyToMessage.from.username !== BOT_USERNAME) {
-          return NO_RESPONSE
-        }
+      const info = await getCachedDaoInfo(env, registration.dao)
+      const name = info?.value.config.name ?? registration.dao
 
-        isAdd =
-          replyToMessage.text.startsWith('/add') ||
-          replyToMessage.text === REPLY_ADD_INSTRUCTIONS
-        isRemove =
-          replyToMessage.text.startsWith('/remove') ||
-          replyToMessage.text === REPLY_REMOVE_INSTRUCTIONS
+      if (callback.action === CallbackAction.Remove) {
+        await deleteDaoRegistration(env, registration)
 
-        if (!isAdd && !isRemove) {
-          return NO_RESPONSE
-        }
+        // Update the list the button was pressed on.
+        const list = await renderList()
+        await editMarkdown(message.message_id, list.text, list.replyMarkup)
+
+        return answer(t('noLongerTrackingName', { name }))
       }
 
-      const dao = text
-        .replace(/^(\/add|\/remove)(@dao_dao_notifier_bot)?\s*/i, '')
-        .match(
-          /(?:https:\/\/)?(?:testnet\.)?(?:daodao\.zone\/dao\/)?([a-zA-Z0-9]+)/
-        )?.[1]
+      if (callback.action === CallbackAction.Mute) {
+        // Notifications are dropped during indefinite mutes.
+        await env.DB.prepare(
+          'UPDATE registrations SET mutedUntil = ?2, updatedAt = CURRENT_TIMESTAMP WHERE id = ?1'
+        )
+          .bind(registration.id, MUTED_INDEFINITELY)
+          .run()
 
-      if (!dao) {
-        if (isAdd) {
-          return respondPlain(REPLY_ADD_INSTRUCTIONS)
-        } else if (isRemove) {
-          return respondPlain(REPLY_REMOVE_INSTRUCTIONS)
-        }
+        return answer(
+          t('mutedDao', { name, suffix, address: registration.dao })
+        )
+      }
 
-        // shouldn't happen
-        return NO_RESPONSE
+      if (callback.action === CallbackAction.Settings) {
+        const dao = await renderDao(registration.dao)
+        await callTelegram(env, 'sendMessage', {
+          chat_id: chat.id,
+          message_thread_id: messageThreadId,
+          parse_mode: 'MarkdownV2',
+          text: tm('registrationSettings', {
+            dao: { markdown: dao },
+            settings: {
+              markdown: [
+                t('eventsSetting', {
+                  events: describeNotifyTypes(
+                    registration.notifyTypes,
+                    language
+                  ),
+                }),
+                t('updateModeSetting', {
+                  mode: t(UPDATE_MODE_DESCRIPTIONS[registration.updateMode]),
+                }),
+                describeReminderHours(registration.reminderHours, language),
+                describeMinVotingPower(registration.minVotingPower, language),
+                describeDigest(registration.digest, language),
+                ...(registration.filters
+                  ? [describeFilters(registration.filters, language)]
+                  : []),
+                ...(isMuted(registration.mutedUntil)
+                  ? [
+                      t('muteSetting', {
+                        mute: describeMute(registration.mutedUntil, language),
+                      }),
+                    ]
+                  : []),
+              ]
+                .map((setting) => `– ${escapeMarkdownV2(setting)}`)
+                .join('\n'),
+            },
+            commands: [
+              'events',
+              'updates',
+              'reminders',
+              'votes',
+              'digest',
+              'filters',
+              'mute',
+            ]
+              .map((command) => `/${command}${suffix}`)
+              .join(', '),
+          }),
+          link_preview_options: {
+            is_disabled: true,
+          },
+        })
+
+        return answer()
       }
 
-      const info = await getDaoInfo(dao)
+      return answer()
+    } else if (isMessage) {
+      // files are sent with commands in their caption
+      const text = message.text ?? message.caption ?? ''
 
-      if (info) {
-        const existing = await env.DB.prepare(
-          `SELECT * FROM registrations WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId ${
-            messageThreadId !== undefined ? '= ?4' : 'IS NULL'
-          }`
-        )
-          .bind(
-            info.chainId,
-            dao,
-            BigInt(chat.id).toString(),
-            ...(messageThreadId !== undefined
-              ? [BigInt(messageThreadId).toString()]
-              : [])
-          )
-          .first()
+      await rememberChat(
+        message.is_topic_message
+          ? message.reply_to_message?.forum_topic_created?.name
+          : undefined
+      )
 
-        if (isAdd) {
-          if (existing) {
-            return respondMarkdown(
-              `You're already tracking [${escapeMarkdownV2(
-                info.value.config.name
-              )}](${
-                info.url
-              })\\! I'll notify you when there are new proposals\\.\n\nSend \`/remove${suffix} ${dao}\` to stop tracking it\\.`
-            )
+      // Get the arguments after a command.
+      const getCommandArgs = (command: string) =>
+        text
+          .replace(new RegExp(`^/${command}(@${botUsername})?\\s*`, 'i'), '')
+          .split(/\s+/)
+          .filter(Boolean)
+
+      // In private chats, pick a chat to manage, or a chat to track the DAO
+      // from a deep link in. These work even if the user is no longer an
+      // admin of the chat they were managing.
+      if (chat.type === 'private') {
+        const note = t('pickerNote')
+
+        if (text.startsWith('/manage')) {
+          return respondMarkdown(
+            tm('manageWhich', {
+              chat: await describeChat(targetChatId, targetMessageThreadId),
+              note,
+            }),
+            await renderChatPicker(CallbackAction.Manage, chat.id)
+          )
+        }
+
+        // DAO pages link to https://t.me/<bot>?start=<DAO address>
+        const [startPayload] = getCommandArgs('start')
+        if (text.startsWith('/start') && startPayload) {
+          const dao = parseDao(startPayload, uiHosts)
+          const info = dao && (await getCachedDaoInfo(env, dao))
+          if (!dao || !info) {
+            return respondPlain(t('trackUnknownDao'))
           }
 
           await env.DB.prepare(
-            'INSERT INTO registrations (chainId, dao, chatId, messageThreadId) VALUES (?1, ?2, ?3, ?4)'
+            'INSERT INTO manage_sessions (userId, dao) VALUES (?1, ?2) ON CONFLICT (userId) DO UPDATE SET dao = ?2, updatedAt = CURRENT_TIMESTAMP'
           )
-            .bind(
-              info.chainId,
-              dao,
-              BigInt(chat.id).toString(),
-              messageThreadId !== undefined
-                ? BigInt(messageThreadId).toString()
-                : null
-            )
+            .bind(BigInt(chat.id).toString(), dao)
             .run()
 
           return respondMarkdown(
-            `Got it\\! I'll notify you when there are new proposals in [${escapeMarkdownV2(
-              info.value.config.name
-            )}](${
-              info.url
-            })\\.\n\nSend \`/remove${suffix} ${dao}\` to stop tracking it\\.`
+            tm('trackWhich', { dao: { markdown: await renderDao(dao) }, note }),
+            await renderChatPicker(CallbackAction.Track, chat.id)
           )
         }
+      }
+
+      // Do nothing if not admin. Sending an error message means non-admins
+      // could spam the chat with error messages.
+      if (!(await isFromAdmin(message))) {
+        // Stop managing a chat from here if no longer an admin of it.
+        if (isManagingOtherChat) {
+          await env.DB.prepare(
+            'UPDATE manage_sessions SET chatId = NULL, messageThreadId = NULL, updatedAt = CURRENT_TIMESTAMP WHERE userId = ?1'
+          )
+            .bind(BigInt(chat.id).toString())
+            .run()
+
+          return respondPlain(t('manageNoLongerAdmin'))
+        }
+
+        return NO_RESPONSE
+      }
+
+      if (text.startsWith('/manage')) {
+        return respondMarkdown(
+          tm('manageFromPrivateChat', {
+            link: {
+              markdown: `[${tm('manageLink')}](https://t.me/${botUsername})`,
+            },
+          })
+        )
+      }
+
+      // Parse an optional DAO argument of a settings command, verifying that
+      // it is tracked here. Returns a response if it is invalid.
+      const parseTrackedDao = (
+        args: string[],
+        registrations: Pick<RegistrationRow, 'dao'>[]
+      ): { dao?: string; error?: Response } => {
+        if (args.length === 0) {
+          return {}
+        }
+
+        const dao = parseDao(args[0], uiHosts)
+        if (!dao) {
+          return {
+            error: respondPlain(t('unknownDao')),
+          }
+        }
+        if (!registrations.some((r) => r.dao === dao)) {
+          return {
+            error: respondMarkdown(
+              tm('notTrackingDao', {
+                dao: { markdown: `\`${dao}\`` },
+                suffix,
+                address: dao,
+              })
+            ),
+          }
+        }
+
+        return { dao }
+      }
+
+      // Render the DAO a settings command applied to, or every DAO if none.
+      const renderTarget = async (
+        dao?: string,
+        key: MessageKey = 'everyDaoTrackedHere'
+      ): Promise<MessageValue> =>
+        dao ? { markdown: await renderDao(dao) } : t(key)
+
+      if (text.startsWith('/start')) {
+        return respondMarkdown(
+          chat.type === 'private'
+            ? WELCOME_PRIVATE_MESSAGE
+            : WELCOME_GROUP_MESSAGE
+        )
+      }
+
+      if (text.startsWith('/help')) {
+        return respondMarkdown(HELP_TEXT)
+      }
+
+      if (text.startsWith('/list')) {
+        const { text, replyMarkup } = await renderList()
+        return respondMarkdown(text, replyMarkup)
+      }
+
+      if (text.startsWith('/events')) {
+        const args = getCommandArgs('events')
+        const registrations = await loadRegistrations('notifyTypes')
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
 
-        if (isRemove) {
-          if (existing) {
-            await env.DB.prepare(
-              `DELETE FROM registrations WHERE dao = ?1 AND chatId = ?2 AND messageThreadId ${
-                messageThreadId !== undefined ? '= ?3' : 'IS NULL'
-              }`
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          const settingsList = await Promise.all(
+            registrations.map(
+              async ({ dao, notifyTypes }) =>
+                `– ${await renderDao(dao)}: ${escapeMarkdownV2(
+                  describeNotifyTypes(notifyTypes, language)
+                )}`
             )
-              .bind(
-                dao,
-                BigInt(chat.id).toString(),
-                ...(messageThreadId !== undefined
-                  ? [BigInt(messageThreadId).toString()]
-                  : [])
-              )
-              .run()
-
-            return respondMarkdown(
-              `Ok, you're no longer tracking [${escapeMarkdownV2(
-                info.value.config.name
-              )}](${
-                info.url
-              })\\.\n\nSend \`/add${suffix} ${dao}\` to track it again\\.`
+          )
+
+          return respondMarkdown(
+            tm('eventsList', {
+              list: { markdown: settingsList.join('\n') },
+              usage: { markdown: EVENTS_USAGE },
+            })
+          )
+        }
+
+        const all = args.some((arg) => arg.toLowerCase() === 'all')
+        const types = args
+          .map(parseNotifyType)
+          .filter((type): type is NotifyType => !!type)
+        const otherArgs = args.filter(
+          (arg) => arg.toLowerCase() !== 'all' && !parseNotifyType(arg)
+        )
+
+        if ((!all && types.length === 0) || otherArgs.length > 1) {
+          return respondMarkdown(EVENTS_USAGE)
+        }
+
+        // if a DAO is provided, only update that DAO
+        const { dao, error } = parseTrackedDao(otherArgs, registrations)
+        if (error) {
+          return error
+        }
+
+        // store types in a consistent order
+        const notifyTypes = JSON.stringify(
+          Object.values(NotifyType).filter(
+            (type) => all || types.includes(type)
+          )
+        )
+
+        await updateRegistrations('notifyTypes', notifyTypes, dao)
+
+        return respondMarkdown(
+          tm('eventsUpdated', {
+            events: describeNotifyTypes(notifyTypes, language),
+            dao: await renderTarget(dao),
+          })
+        )
+      }
+
+      if (text.startsWith('/updates')) {
+        const args = getCommandArgs('updates')
+        const registrations = await loadRegistrations('updateMode')
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
+
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          const settingsList = await Promise.all(
+            registrations.map(
+              async ({ dao, updateMode }) =>
+                `– ${await renderDao(dao)}: ${escapeMarkdownV2(
+                  t(UPDATE_MODE_DESCRIPTIONS[updateMode])
+                )}`
             )
-          } else {
-            return respondMarkdown(
-              `You're not tracking [${escapeMarkdownV2(
-                info.value.config.name
-              )}](${
-                info.url
-              })\\.\n\nSend \`/add${suffix} ${dao}\` to track it\\.`
+          )
+
+          return respondMarkdown(
+            tm('updatesList', {
+              list: { markdown: settingsList.join('\n') },
+              usage: { markdown: UPDATES_USAGE },
+            })
+          )
+        }
+
+        const modes = Object.values(UpdateMode).filter((mode) =>
+          args.some((arg) => arg.toLowerCase() === mode)
+        )
+        const otherArgs = args.filter(
+          (arg) => !modes.includes(arg.toLowerCase() as UpdateMode)
+        )
+
+        if (modes.length !== 1 || otherArgs.length > 1) {
+          return respondMarkdown(UPDATES_USAGE)
+        }
+
+        // if a DAO is provided, only update that DAO
+        const { dao, error } = parseTrackedDao(otherArgs, registrations)
+        if (error) {
+          return error
+        }
+
+        await updateRegistrations('updateMode', modes[0], dao)
+
+        return respondMarkdown(
+          tm('updatesUpdated', {
+            dao: await renderTarget(dao, 'anyDaoTrackedHere'),
+            mode: t(UPDATE_MODE_DESCRIPTIONS[modes[0]]),
+          })
+        )
+      }
+
+      if (text.startsWith('/reminders')) {
+        const args = getCommandArgs('reminders')
+        const registrations = await loadRegistrations('reminderHours')
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
+
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          const settingsList = await Promise.all(
+            registrations.map(
+              async ({ dao, reminderHours }) =>
+                `– ${await renderDao(dao)}: ${escapeMarkdownV2(
+                  describeReminderHours(reminderHours, language)
+                )}`
+            )
+          )
+
+          return respondMarkdown(
+            tm('remindersList', {
+              list: { markdown: settingsList.join('\n') },
+              usage: { markdown: REMINDERS_USAGE },
+            })
+          )
+        }
+
+        const settingArg = args[args.length - 1].toLowerCase()
+        const off = settingArg === 'off'
+        const hours = Number(settingArg)
+        if (
+          (!off &&
+            (!Number.isInteger(hours) ||
+              hours < 1 ||
+              hours > MAX_REMINDER_HOURS)) ||
+          args.length > 2
+        ) {
+          return respondMarkdown(REMINDERS_USAGE)
+        }
+
+        // if a DAO is provided, only update that DAO
+        const { dao, error } = parseTrackedDao(args.slice(0, -1), registrations)
+        if (error) {
+          return error
+        }
+
+        const reminderHours = off ? null : hours
+        await updateRegistrations('reminderHours', reminderHours, dao)
+
+        return respondMarkdown(
+          tm('settingUpdated', {
+            dao: await renderTarget(dao),
+            setting: describeReminderHours(reminderHours, language),
+          })
+        )
+      }
+
+      if (text.startsWith('/votes')) {
+        const args = getCommandArgs('votes')
+        const registrations = await loadRegistrations('minVotingPower')
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
+
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          const settingsList = await Promise.all(
+            registrations.map(
+              async ({ dao, minVotingPower }) =>
+                `– ${await renderDao(dao)}: ${escapeMarkdownV2(
+                  describeMinVotingPower(minVotingPower, language)
+                )}`
+            )
+          )
+
+          return respondMarkdown(
+            tm('votesList', {
+              list: { markdown: settingsList.join('\n') },
+              usage: { markdown: VOTES_USAGE },
+            })
+          )
+        }
+
+        const minVotingPower = Number(args[args.length - 1].replace(/%$/, ''))
+        if (
+          isNaN(minVotingPower) ||
+          minVotingPower < 0 ||
+          minVotingPower > 100 ||
+          args.length > 2
+        ) {
+          return respondMarkdown(VOTES_USAGE)
+        }
+
+        // if a DAO is provided, only update that DAO
+        const { dao, error } = parseTrackedDao(args.slice(0, -1), registrations)
+        if (error) {
+          return error
+        }
+
+        await updateRegistrations('minVotingPower', minVotingPower, dao)
+
+        return respondMarkdown(
+          tm('settingUpdated', {
+            dao: await renderTarget(dao),
+            setting: describeMinVotingPower(minVotingPower, language),
+          })
+        )
+      }
+
+      if (text.startsWith('/digest')) {
+        const args = getCommandArgs('digest')
+        const registrations = await loadRegistrations('digest')
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
+
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          const settingsList = await Promise.all(
+            registrations.map(
+              async ({ dao, digest }) =>
+                `– ${await renderDao(dao)}: ${escapeMarkdownV2(
+                  describeDigest(digest, language)
+                )}`
+            )
+          )
+
+          return respondMarkdown(
+            tm('settingsList', {
+              list: { markdown: settingsList.join('\n') },
+              usage: { markdown: DIGEST_USAGE },
+            })
+          )
+        }
+
+        const settingArg = args[args.length - 1].toLowerCase()
+        const off = settingArg === 'off'
+        const frequency = Object.values(DigestFrequency).find(
+          (frequency) => frequency === settingArg
+        )
+        if ((!off && !frequency) || args.length > 2) {
+          return respondMarkdown(DIGEST_USAGE)
+        }
+
+        // if a DAO is provided, only update that DAO
+        const { dao, error } = parseTrackedDao(args.slice(0, -1), registrations)
+        if (error) {
+          return error
+        }
+
+        const digest = frequency ?? null
+        await updateRegistrations('digest', digest, dao)
+
+        return respondMarkdown(
+          tm('settingUpdated', {
+            dao: await renderTarget(dao),
+            setting: describeDigest(digest, language),
+          })
+        )
+      }
+
+      if (text.startsWith('/mute')) {
+        const args = getCommandArgs('mute')
+        const registrations = await loadRegistrations('mutedUntil')
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
+
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          const settingsList = await Promise.all(
+            registrations.map(
+              async ({ dao, mutedUntil }) =>
+                `– ${await renderDao(dao)}: ${escapeMarkdownV2(
+                  describeMute(mutedUntil, language)
+                )}`
             )
+          )
+
+          return respondMarkdown(
+            tm('muteList', {
+              list: { markdown: settingsList.join('\n') },
+              usage: { markdown: MUTE_USAGE },
+            })
+          )
+        }
+
+        const duration = args[1] ? parseDuration(args[1]) : undefined
+        if (args.length > 2 || (args[1] && !duration)) {
+          return respondMarkdown(MUTE_USAGE)
+        }
+
+        // `all` mutes every DAO
+        const { dao, error }: ReturnType<typeof parseTrackedDao> =
+          args[0].toLowerCase() === 'all'
+            ? {}
+            : parseTrackedDao(args.slice(0, 1), registrations)
+        if (error) {
+          return error
+        }
+
+        const mutedUntil = duration
+          ? new Date(Date.now() + duration)
+              .toISOString()
+              .slice(0, 19)
+              .replace('T', ' ')
+          : MUTED_INDEFINITELY
+        await updateRegistrations('mutedUntil', mutedUntil, dao)
+
+        return respondMarkdown(
+          tm('muteUpdated', {
+            dao: await renderTarget(dao, 'everyDaoTrackedHereStart'),
+            mute: describeMute(mutedUntil, language),
+            suffix,
+            address: dao ? ` ${dao}` : '',
+          })
+        )
+      }
+
+      if (text.startsWith('/unmute')) {
+        const args = getCommandArgs('unmute')
+        const registrations = await loadRegistrations()
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
+        if (args.length > 1) {
+          return respondMarkdown(MUTE_USAGE)
+        }
+
+        // if a DAO is provided, only update that DAO
+        const { dao, error } = parseTrackedDao(args, registrations)
+        if (error) {
+          return error
+        }
+
+        await updateRegistrations('mutedUntil', null, dao)
+        // send held messages on the next run of the cron. Any still held for
+        // quiet hours are held again.
+        await env.DB.prepare(
+          "UPDATE held_deliveries SET releaseAt = CURRENT_TIMESTAMP WHERE chatId = ?1 AND messageThreadId IS ?2 AND (?3 IS NULL OR json_extract(job, '$.dao') = ?3)"
+        )
+          .bind(targetChatId, targetMessageThreadId, dao ?? null)
+          .run()
+
+        return respondMarkdown(
+          tm('unmuteUpdated', { dao: await renderTarget(dao) })
+        )
+      }
+
+      if (text.startsWith('/quiet')) {
+        const args = getCommandArgs('quiet')
+        const settings = await env.DB.prepare(
+          'SELECT quietHoursStart, quietHoursEnd, timeZone, quietHoursMode FROM chat_settings WHERE chatId = ?1'
+        )
+          .bind(targetChatId)
+          .first<
+            Pick<
+              ChatSettingsRow,
+              | 'quietHoursStart'
+              | 'quietHoursEnd'
+              | 'timeZone'
+              | 'quietHoursMode'
+            >
+          >()
+
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          return respondMarkdown(
+            `${escapeMarkdownV2(
+              describeQuietHours(settings, language)
+            )}\n\n${QUIET_USAGE}`
+          )
+        }
+
+        if (args.length === 1 && args[0].toLowerCase() === 'off') {
+          await env.DB.batch([
+            env.DB.prepare(
+              'UPDATE chat_settings SET quietHoursStart = NULL, quietHoursEnd = NULL, updatedAt = CURRENT_TIMESTAMP WHERE chatId = ?1'
+            ).bind(targetChatId),
+            // send held messages on the next run of the cron
+            env.DB.prepare(
+              'UPDATE held_deliveries SET releaseAt = CURRENT_TIMESTAMP WHERE chatId = ?1'
+            ).bind(targetChatId),
+          ])
+
+          return respondPlain(t('quietHoursTurnedOff'))
+        }
+
+        // the optional time zone and mode can be in either order
+        const [startArg, endArg = '', ...rest] = args
+        const start = parseTimeOfDay(startArg)
+        const end = parseTimeOfDay(endArg)
+        const mode = Object.values(QuietHoursMode).find((mode) =>
+          rest.some((arg) => arg.toLowerCase() === mode)
+        )
+        const timeZoneArgs = rest.filter((arg) => arg.toLowerCase() !== mode)
+        const timeZone = timeZoneArgs[0]
+          ? parseTimeZone(timeZoneArgs[0])
+          : settings?.timeZone ?? 'UTC'
+        if (
+          start === undefined ||
+          end === undefined ||
+          start === end ||
+          timeZoneArgs.length > 1 ||
+          !timeZone
+        ) {
+          return respondMarkdown(QUIET_USAGE)
+        }
+
+        const quietHours = {
+          quietHoursStart: start,
+          quietHoursEnd: end,
+          timeZone,
+          quietHoursMode:
+            mode ?? settings?.quietHoursMode ?? QuietHoursMode.Hold,
+        }
+        await env.DB.prepare(
+          'INSERT INTO chat_settings (chatId, quietHoursStart, quietHoursEnd, timeZone, quietHoursMode) VALUES (?1, ?2, ?3, ?4, ?5) ON CONFLICT (chatId) DO UPDATE SET quietHoursStart = ?2, quietHoursEnd = ?3, timeZone = ?4, quietHoursMode = ?5, updatedAt = CURRENT_TIMESTAMP'
+        )
+          .bind(
+            targetChatId,
+            quietHours.quietHoursStart,
+            quietHours.quietHoursEnd,
+            quietHours.timeZone,
+            quietHours.quietHoursMode
+          )
+          .run()
+
+        return respondPlain(
+          t('quietHoursUpdated', {
+            quietHours: describeQuietHours(quietHours, language),
+          })
+        )
+      }
+
+      if (text.startsWith('/filters')) {
+        const args = getCommandArgs('filters')
+        const registrations = await loadRegistrations('filters')
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
+
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          const settingsList = await Promise.all(
+            registrations.map(
+              async ({ dao, filters }) =>
+                `– ${await renderDao(dao)}: ${escapeMarkdownV2(
+                  describeFilters(filters, language)
+                )}`
+            )
+          )
+
+          return respondMarkdown(
+            tm('settingsList', {
+              list: { markdown: settingsList.join('\n') },
+              usage: { markdown: FILTERS_USAGE },
+            })
+          )
+        }
+
+        const mode = Object.values(FilterMode).find(
+          (mode) => mode === args[1]?.toLowerCase()
+        )
+        const clear = args.length === 2 && args[1].toLowerCase() === 'clear'
+        if (!clear && (!mode || args.length < 3)) {
+          return respondMarkdown(FILTERS_USAGE)
+        }
+
+        const { dao, error } = parseTrackedDao(args.slice(0, 1), registrations)
+        if (!dao) {
+          return error ?? respondMarkdown(FILTERS_USAGE)
+        }
+
+        let filters: ProposalFilter[] = []
+        if (mode) {
+          const pattern = args.slice(2).join(' ')
+          const invalid = validateFilterPattern(pattern)
+          if (invalid) {
+            return respondPlain(t(invalid.key, invalid.values))
           }
+
+          const existing = registrations.find((r) => r.dao === dao)?.filters
+          filters = existing ? JSON.parse(existing) : []
+          if (
+            !filters.some(
+              (filter) => filter.mode === mode && filter.pattern === pattern
+            )
+          ) {
+            if (filters.length >= MAX_FILTERS) {
+              return respondPlain(t('filtersTooMany', { max: MAX_FILTERS }))
+            }
+            filters.push({ mode, pattern })
+          }
+        }
+
+        const stored = filters.length > 0 ? JSON.stringify(filters) : null
+        await updateRegistrations('filters', stored, dao)
+
+        return respondMarkdown(
+          tm('settingUpdated', {
+            dao: { markdown: await renderDao(dao) },
+            setting: describeFilters(stored, language),
+          })
+        )
+      }
+
+      if (text.startsWith('/template')) {
+        const args = getCommandArgs('template')
+        const chatId = targetChatId
+        const settings = await env.DB.prepare(
+          'SELECT templates, descriptionLength, language FROM chat_settings WHERE chatId = ?1'
+        )
+          .bind(chatId)
+          .first<
+            Pick<
+              ChatSettingsRow,
+              'templates' | 'descriptionLength' | 'language'
+            >
+          >()
+        // default templates are in the language notifications are sent in
+        const templateLanguage = settings?.language ?? language
+        const templates: Partial<Record<TemplateName, string>> =
+          settings?.templates ? JSON.parse(settings.templates) : {}
+        let descriptionLength = settings?.descriptionLength ?? null
+
+        // if no arguments, show the current settings
+        if (args.length === 0) {
+          const templateList = (
+            Object.keys(TEMPLATE_NAMES) as TemplateName[]
+          ).map(
+            (name) =>
+              `– \`${TEMPLATE_NAMES[name]}\`: ${escapeMarkdownV2(
+                templates[name] ??
+                  getDefaultHeaderTemplate(name, templateLanguage)
+              )}${templates[name] ? '' : ` _${tm('templateDefault')}_`}`
+          )
+
+          return respondMarkdown(
+            tm('templateList', {
+              list: { markdown: templateList.join('\n') },
+              length: descriptionLength ?? DEFAULT_DESCRIPTION_LENGTH,
+              usage: { markdown: TEMPLATE_USAGE },
+            })
+          )
+        }
+
+        const reset = args.length === 2 && args[1].toLowerCase() === 'reset'
+        let reply: string
+
+        if (args[0].toLowerCase() === 'length') {
+          const length = Number(args[1])
+          if (
+            args.length !== 2 ||
+            (!reset &&
+              (!Number.isInteger(length) ||
+                length < 0 ||
+                length > MAX_DESCRIPTION_LENGTH))
+          ) {
+            return respondMarkdown(TEMPLATE_USAGE)
+          }
+
+          descriptionLength = reset ? null : length
+          reply =
+            descriptionLength === 0
+              ? tm('descriptionLengthOff')
+              : tm('descriptionLengthUpdated', {
+                  length: descriptionLength ?? DEFAULT_DESCRIPTION_LENGTH,
+                })
+        } else {
+          const name = (Object.keys(TEMPLATE_NAMES) as TemplateName[]).find(
+            (name) => TEMPLATE_NAMES[name] === args[0].toLowerCase()
+          )
+          if (!name || args.length < 2) {
+            return respondMarkdown(TEMPLATE_USAGE)
+          }
+
+          if (reset) {
+            delete templates[name]
+          } else {
+            const template = args.slice(1).join(' ')
+            if (template.length > MAX_TEMPLATE_LENGTH) {
+              return respondPlain(
+                t('templateTooLong', { max: MAX_TEMPLATE_LENGTH })
+              )
+            }
+
+            const unknown = getUnknownPlaceholders(name, template)
+            if (unknown.length > 0) {
+              return respondPlain(
+                t('templateUnknownPlaceholders', {
+                  name: TEMPLATE_NAMES[name],
+                  placeholders: unknown.join(', '),
+                })
+              )
+            }
+
+            templates[name] = template
+          }
+
+          reply = tm('templateUpdated', {
+            name: TEMPLATE_NAMES[name],
+            template:
+              templates[name] ??
+              getDefaultHeaderTemplate(name, templateLanguage),
+          })
         }
-      } else {
+
+        await env.DB.prepare(
+          'INSERT INTO chat_settings (chatId, templates, descriptionLength) VALUES (?1, ?2, ?3) ON CONFLICT (chatId) DO UPDATE SET templates = ?2, descriptionLength = ?3, updatedAt = CURRENT_TIMESTAMP'
+        )
+          .bind(
+            chatId,
+            Object.keys(templates).length > 0
+              ? JSON.stringify(templates)
+              : null,
+            descriptionLength
+          )
+          .run()
+
+        return respondMarkdown(reply)
+      }
+
+      if (text.startsWith('/language')) {
+        const args = getCommandArgs('language')
+
+        // if no arguments, show the current setting
+        if (args.length === 0) {
+          const settings = await env.DB.prepare(
+            'SELECT language FROM chat_settings WHERE chatId = ?1'
+          )
+            .bind(targetChatId)
+            .first<Pick<ChatSettingsRow, 'language'>>()
+
+          return respondMarkdown(
+            tm('languageCurrent', {
+              language: LANGUAGE_NAMES[settings?.language ?? language],
+              usage: { markdown: LANGUAGE_USAGE },
+            })
+          )
+        }
+
+        const newLanguage = parseLanguage(args[0])
+        if (!newLanguage || args.length > 1) {
+          return respondMarkdown(LANGUAGE_USAGE)
+        }
+
+        await env.DB.prepare(
+          'INSERT INTO chat_settings (chatId, language) VALUES (?1, ?2) ON CONFLICT (chatId) DO UPDATE SET language = ?2, updatedAt = CURRENT_TIMESTAMP'
+        )
+          .bind(targetChatId, newLanguage)
+          .run()
+
+        // reply in the new language
+        return respondMarkdown(
+          translateMarkdown(newLanguage, 'languageUpdated', {
+            language: LANGUAGE_NAMES[newLanguage],
+          })
+        )
+      }
+
+      if (text.startsWith('/export')) {
+        const registrations = await loadRegistrations(
+          'chainId',
+          'notifyTypes',
+          'updateMode',
+          'reminderHours',
+          'digest',
+          'minVotingPower',
+          'filters'
+        )
+        if (registrations.length === 0) {
+          return respondMarkdown(NOT_TRACKING_ANY)
+        }
+
+        const settings = await env.DB.prepare(
+          'SELECT templates, descriptionLength FROM chat_settings WHERE chatId = ?1'
+        )
+          .bind(targetChatId)
+          .first<Pick<ChatSettingsRow, 'templates' | 'descriptionLength'>>()
+
+        const chatExport: ChatExport = {
+          version: 1,
+          daos: registrations.map(
+            ({
+              chainId,
+              dao,
+              notifyTypes,
+              updateMode,
+              reminderHours,
+              digest,
+              minVotingPower,
+              filters,
+            }) => ({
+              chainId,
+              dao,
+              notifyTypes: notifyTypes ? JSON.parse(notifyTypes) : null,
+              updateMode,
+              reminderHours,
+              digest,
+              minVotingPower,
+              filters: filters ? JSON.parse(filters) : null,
+            })
+          ),
+          templates: settings?.templates
+            ? JSON.parse(settings.templates)
+            : null,
+          descriptionLength: settings?.descriptionLength ?? null,
+        }
+
+        // files cannot be sent in webhook responses
+        const sent = await sendTelegramDocument(
+          env,
+          {
+            chat_id: chat.id,
+            message_thread_id: messageThreadId,
+            caption: t('exportCaption', { suffix }),
+          },
+          {
+            name: 'daos.json',
+            type: 'application/json',
+            content: JSON.stringify(chatExport, null, 2),
+          }
+        )
+        if (!sent.ok) {
+          throw new Error(
+            `failed to send export: ${sent.error_code} ${sent.description}`
+          )
+        }
+
+        return NO_RESPONSE
+      }
+
+      const replyToMessage = message.reply_to_message
+      // the bot's channel posts are sent on behalf of the channel
+      const isReplyToBot =
+        !!replyToMessage &&
+        (replyToMessage.from?.username === botUsername ||
+          (chat.type === 'channel' &&
+            replyToMessage.sender_chat?.id === chat.id))
+
+      if (
+        text.startsWith('/import') ||
+        (isReplyToBot &&
+          isTranslationOf(replyToMessage.text ?? '', 'replyImportInstructions'))
+      ) {
+        const { document } = message
+        if (!document) {
+          return respondPlain(t('replyImportInstructions'))
+        }
+        if ((document.file_size ?? 0) > MAX_IMPORT_FILE_SIZE) {
+          return respondPlain(t('importTooBig'))
+        }
+
+        const content = await downloadTelegramFile(env, document.file_id)
+        if (content === null) {
+          return respondPlain(t('importDownloadFailed'))
+        }
+
+        const chatExport = parseChatExport(content)
+        if ('key' in chatExport) {
+          return respondPlain(t(chatExport.key, chatExport.values))
+        }
+
+        // one at a time, so a DAO listed twice is not tracked twice. the chain
+        // is loaded again instead of trusting the file.
+        const results: {
+          dao: string
+          info: DaoInfo | null
+          existed: boolean
+        }[] = []
+        for (const exported of chatExport.daos) {
+          results.push({
+            dao: exported.dao,
+            ...(await trackDao(exported.dao, {
+              notifyTypes:
+                exported.notifyTypes && JSON.stringify(exported.notifyTypes),
+              updateMode: exported.updateMode,
+              reminderHours: exported.reminderHours,
+              digest: exported.digest,
+              minVotingPower: exported.minVotingPower,
+              filters: exported.filters?.length
+                ? JSON.stringify(exported.filters)
+                : null,
+            })),
+          })
+        }
+
+        // chat settings are only copied if customized, so importing into a
+        // chat with its own templates does not reset them
+        if (
+          chatExport.templates !== null ||
+          chatExport.descriptionLength !== null
+        ) {
+          await env.DB.prepare(
+            'INSERT INTO chat_settings (chatId, templates, descriptionLength) VALUES (?1, ?2, ?3) ON CONFLICT (chatId) DO UPDATE SET templates = ?2, descriptionLength = ?3, updatedAt = CURRENT_TIMESTAMP'
+          )
+            .bind(
+              targetChatId,
+              chatExport.templates && JSON.stringify(chatExport.templates),
+              chatExport.descriptionLength
+            )
+            .run()
+        }
+
+        return respondMarkdown(
+          renderBulkSummary([
+            [
+              'bulkNowTracking',
+              results.filter(({ info, existed }) => info && !existed),
+            ],
+            [
+              'bulkUpdated',
+              results.filter(({ info, existed }) => info && existed),
+            ],
+            ['bulkNotLoaded', results.filter(({ info }) => !info)],
+          ])
+        )
+      }
+
+      let isAdd = text.startsWith('/add')
+      let isRemove = text.startsWith('/remove')
+
+      // if neither add nor remove command detected, auto-detect based on reply
+      if (!isAdd && !isRemove) {
+        if (!replyToMessage || !isReplyToBot) {
+          return NO_RESPONSE
+        }
+
+        isAdd =
+          !!replyToMessage.text?.startsWith('/add') ||
+          isTranslationOf(replyToMessage.text ?? '', 'replyAddInstructions')
+        isRemove =
+          !!replyToMessage.text?.startsWith('/remove') ||
+          isTranslationOf(replyToMessage.text ?? '', 'replyRemoveInstructions')
+
+        if (!isAdd && !isRemove) {
+          return NO_RESPONSE
+        }
+      }
+
+      // DAO addresses or links, separated by spaces, new lines, or commas
+      const args = text
+        .replace(new RegExp(`^/(add|remove)(@${botUsername})?\\s*`, 'i'), '')
+        .split(/[\s,]+/)
+        .filter(Boolean)
+
+      if (args.length === 0) {
+        return respondPlain(
+          t(isAdd ? 'replyAddInstructions' : 'replyRemoveInstructions')
+        )
+      }
+      if (args.length > MAX_BULK_DAOS) {
         return respondPlain(
-          "I don't recognize the DAO address or link provided. Try replying to the original message with the URL copied from your browser."
+          t(isAdd ? 'bulkAddTooMany' : 'bulkRemoveTooMany', {
+            max: MAX_BULK_DAOS,
+          })
+        )
+      }
+
+      // one at a time, so a DAO sent twice is not tracked twice
+      const results: { dao: string; info: DaoInfo | null; existed: boolean }[] =
+        []
+      for (const arg of new Set(args)) {
+        const dao = parseDao(arg, uiHosts)
+        results.push({
+          dao: dao ?? arg,
+          ...(dao
+            ? await (isAdd ? trackDao(dao) : untrackDao(dao))
+            : { info: null, existed: false }),
+        })
+      }
+
+      // summarize each DAO if more than one was sent
+      if (results.length > 1) {
+        return respondMarkdown(
+          renderBulkSummary(
+            isAdd
+              ? [
+                  [
+                    'bulkNowTracking',
+                    results.filter(({ info, existed }) => info && !existed),
+                  ],
+                  [
+                    'bulkAlreadyTracking',
+                    results.filter(({ info, existed }) => info && existed),
+                  ],
+                  ['bulkUnknown', results.filter(({ info }) => !info)],
+                ]
+              : [
+                  [
+                    'bulkNoLongerTracking',
+                    results.filter(({ info, existed }) => info && existed),
+                  ],
+                  [
+                    'bulkNotTracking',
+                    results.filter(({ info, existed }) => info && !existed),
+                  ],
+                  ['bulkUnknown', results.filter(({ info }) => !info)],
+                ]
+          )
         )
       }
+
+      const [{ dao, info, existed: existing }] = results
+
+      if (!info) {
+        return respondPlain(t('unknownDaoReply'))
+      }
+
+      const values = {
+        dao: {
+          markdown: `[${escapeMarkdownV2(
+            info.value.config.name
+          )}](${escapeMarkdownV2Url(info.url)})`,
+        },
+        suffix,
+        address: dao,
+      }
+      if (isAdd) {
+        return respondMarkdown(
+          tm(existing ? 'alreadyTrackingDao' : 'trackingDao', values)
+        )
+      }
+      return respondMarkdown(
+        tm(existing ? 'untrackedDao' : 'notTrackingDao', values)
+      )
     }
   } catch (err) {
     console.error(
@@ -411,9 +2451,7 @@ export const telegram = async (
       JSON.stringify(data, null, 2)
     )
 
-    return respondPlain(
-      `An unexpected error ocurred. Please try again or contact the team for support.`
-    )
+    return respondPlain(t('unexpectedError'))
   }
 
   return NO_RESPONSE
@@ -1,15 +1,446 @@
 export interface Env {
   DB: D1Database
+  DELIVERY_QUEUE: Queue<DeliveryJob>
+  DELIVERY_DEAD_LETTER_QUEUE: Queue<DeliveryJob>
+
+  // Variables.
+  // Base URL of the indexer that serves DAO info.
+  INDEXER_URL: string
+  // Comma-separated hosts of DAO UIs whose DAO links can be used in commands.
+  UI_HOSTS: string
+  // Overrides the bot's username, which is otherwise loaded from Telegram.
+  BOT_USERNAME?: string
+  // Set to `true` to accept the legacy `apiKey` in notify request bodies.
+  ALLOW_LEGACY_API_KEY?: string
 
   // Secrets.
   BOT_TOKEN: string
   WEBHOOK_SECRET: string
-  NOTIFY_API_KEY: string
+  // Comma-separated keys for signing notify requests. More than one key can be
+  // active while rotating them.
+  NOTIFY_SIGNING_KEYS?: string
+  // Legacy key sent in notify request bodies.
+  NOTIFY_API_KEY?: string
+  // Bearer token for the admin API, which is disabled if not set.
+  ADMIN_API_KEY?: string
+
+  // Optional clients that replace the real APIs, like service bindings or
+  // mocks in tests.
+  // Receives Telegram Bot API requests instead of `api.telegram.org`.
+  TELEGRAM?: ApiClient
+  // Receives DAO info requests instead of `INDEXER_URL`.
+  INDEXER?: ApiClient
+  // Receives Discord and generic webhook requests instead of their URLs.
+  WEBHOOKS?: ApiClient
+}
+
+// Sends HTTP requests to an API, like a service binding.
+export type ApiClient = {
+  fetch: (url: string, init?: RequestInit) => Promise<Response>
+}
+
+export enum NotifyType {
+  ProposalCreated = 'proposal_created',
+  ProposalExecuted = 'proposal_executed',
+  ProposalExecutionFailed = 'proposal_execution_failed',
+  ProposalClosed = 'proposal_closed',
+  ProposalVetoed = 'proposal_vetoed',
+  ProposalVetoTimelock = 'proposal_veto_timelock',
+  VoteCast = 'vote_cast',
+}
+
+// Fields in every notify request body.
+type BasePayload = {
+  // Legacy authentication, if signatures are not used.
+  apiKey?: string
+  // Identifies repeated requests. Derived from the proposal event if not
+  // provided here or in the `Idempotency-Key` header.
+  idempotencyKey?: string
+  daoName: string
+  daoUrl: string
+  proposalId: string | number
+  proposalTitle: string
+  proposalDescription?: string
+  url: string
+}
+
+// Notify request bodies for each type.
+export type NotifyPayload = BasePayload &
+  (
+    | {
+        type: NotifyType.ProposalCreated
+        proposalDescription: string
+        // ISO 8601 date or Unix timestamp in milliseconds.
+        expiresAt?: string | number
+      }
+    | {
+        type: NotifyType.ProposalExecuted | NotifyType.ProposalExecutionFailed
+        proposalDescription: string
+        winningChoice?: string
+      }
+    | {
+        type: NotifyType.ProposalClosed
+        proposalDescription: string
+      }
+    | {
+        type: NotifyType.ProposalVetoed
+        vetoer?: string
+      }
+    | {
+        type: NotifyType.ProposalVetoTimelock
+        vetoer?: string
+        // ISO 8601 date or Unix timestamp in milliseconds.
+        timelockExpiresAt?: string | number
+      }
+    | {
+        type: NotifyType.VoteCast
+        voter: string
+        vote: string
+        // Percent of the total voting power.
+        votingPower: number
+      }
+  )
+
+// How to send proposal status updates to a chat that received the original
+// proposal message.
+export enum UpdateMode {
+  // Edit the original message with a status line.
+  Edit = 'edit',
+  // Reply to the original message.
+  Reply = 'reply',
+  // Send a new message.
+  New = 'new',
+}
+
+export enum DigestFrequency {
+  Daily = 'daily',
+  Weekly = 'weekly',
 }
 
 export type RegistrationRow = {
+  id: number
   chainId: string
   dao: string
   chatId: string
   messageThreadId: string | null
+  // JSON array of notify types, or null for all.
+  notifyTypes: string | null
+  updateMode: UpdateMode
+  // Hours before voting closes to send a reminder, or null for no reminders.
+  reminderHours: number | null
+  // How often to send a digest instead of individual notifications, or null
+  // to send them as they happen.
+  digest: DigestFrequency | null
+  // Minimum percent of the voting power a vote needs to be notified about.
+  minVotingPower: number
+  // SQLite datetime in UTC when a mute ends, or null if not muted.
+  mutedUntil: string | null
+  // JSON array of proposal filters, or null for none.
+  filters: string | null
+}
+
+export enum FilterMode {
+  // Only notify about proposals matching one of these filters.
+  Include = 'include',
+  // Never notify about proposals matching one of these filters.
+  Exclude = 'exclude',
+}
+
+// A filter on proposals' titles and descriptions.
+export type ProposalFilter = {
+  mode: FilterMode
+  // A keyword, matched case-insensitively, or a regex like `/payroll \d+/i`.
+  pattern: string
+}
+
+export type ProposalMessageRow = {
+  chainId: string
+  dao: string
+  proposalId: string
+  chatId: string
+  messageThreadId: string | null
+  messageId: number
+  // MarkdownV2 text of the original message, used when editing it.
+  text: string
+}
+
+// Proposals open for voting, stored from proposal_created notifications.
+export type OpenProposalRow = {
+  chainId: string
+  dao: string
+  proposalId: string
+  daoName: string
+  daoUrl: string
+  title: string
+  url: string
+  // SQLite datetime in UTC.
+  expiresAt: string
+}
+
+// Messages sent by the worker on a schedule, not by the notify route.
+export enum ScheduledMessageType {
+  Reminder = 'reminder',
+  Digest = 'digest',
+}
+
+// What to do with messages during a chat's quiet hours.
+export enum QuietHoursMode {
+  // Send them when quiet hours end.
+  Hold = 'hold',
+  // Send them without a notification sound.
+  Silent = 'silent',
+}
+
+// Where notifications are sent.
+export enum ChannelType {
+  Telegram = 'telegram',
+  // A Discord webhook.
+  Discord = 'discord',
+  // A generic HTTP webhook, whose requests are signed.
+  Webhook = 'webhook',
+}
+
+// A Discord or generic webhook that tracks DAOs like a Telegram chat. Its
+// registrations, deliveries, and other rows use its chat ID, like
+// `discord:<UUID>`.
+export type ChannelRow = {
+  id: number
+  chatId: string
+  type: Exclude<ChannelType, ChannelType.Telegram>
+  url: string
+  // Key to sign generic webhook requests with, or null for Discord.
+  secret: string | null
+  // SQLite datetime in UTC.
+  createdAt: string
+}
+
+// Languages the bot speaks, by IETF language tag.
+export enum Language {
+  English = 'en',
+  Spanish = 'es',
+  German = 'de',
+}
+
+// Settings that apply to a whole chat, across DAOs and topics.
+export type ChatSettingsRow = {
+  chatId: string
+  // JSON object of header template overrides by template name.
+  templates: string | null
+  // Maximum description length, or null for the default.
+  descriptionLength: number | null
+  // Quiet hours in minutes after midnight in the time zone, or null if off.
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+  // IANA time zone, like `Europe/Berlin`.
+  timeZone: string
+  quietHoursMode: QuietHoursMode
+  // Language of replies and notifications, or null to use the language of the
+  // user sending a command.
+  language: Language | null
+}
+
+// A delivery held until a chat's quiet hours end.
+export type HeldDeliveryRow = {
+  id: number
+  chatId: string
+  messageThreadId: string | null
+  // JSON delivery job.
+  job: string
+  // SQLite datetime in UTC.
+  releaseAt: string
+}
+
+// Last known DAO info from the indexer.
+export type DaoInfoRow = {
+  dao: string
+  chainId: string
+  name: string
+  url: string
+  // SQLite datetime in UTC.
+  updatedAt: string
+}
+
+// Last known admins and owner of a group chat.
+export type ChatAdminsRow = {
+  chatId: string
+  // JSON array of user IDs.
+  adminIds: string
+  // SQLite datetime in UTC.
+  updatedAt: string
+}
+
+// A group chat or channel the bot is in.
+export type ChatRow = {
+  chatId: string
+  type: 'group' | 'supergroup' | 'channel'
+  title: string
+}
+
+// A forum topic seen in a group chat.
+export type ChatTopicRow = {
+  chatId: string
+  messageThreadId: string
+  // Null if the topic's name has not been seen.
+  name: string | null
+}
+
+// A user managing another chat from their private chat with the bot.
+export type ManageSessionRow = {
+  // Also the ID of the user's private chat.
+  userId: string
+  // Chat and topic that commands apply to, or null for the private chat.
+  chatId: string | null
+  messageThreadId: string | null
+  // DAO from a deep link, waiting for the user to pick a chat to track it in.
+  dao: string | null
+}
+
+// A chat's tracked DAOs and settings, sent by /export and read by /import to
+// copy a setup to another chat or topic.
+export type ChatExport = {
+  version: 1
+  daos: (Pick<
+    RegistrationRow,
+    | 'chainId'
+    | 'dao'
+    | 'updateMode'
+    | 'reminderHours'
+    | 'digest'
+    | 'minVotingPower'
+  > & {
+    // Null for all.
+    notifyTypes: NotifyType[] | null
+    // Null for none. Missing in files exported before filters were added.
+    filters?: ProposalFilter[] | null
+  })[]
+  // Header template overrides by template name.
+  templates: Record<string, string> | null
+  descriptionLength: number | null
+}
+
+// Notifications held for a chat's next digest.
+export type DigestEventRow = {
+  chainId: string
+  dao: string
+  proposalId: string
+  type: NotifyType
+  daoName: string
+  daoUrl: string
+  title: string
+  url: string
+  chatId: string
+  messageThreadId: string | null
+}
+
+export type NotificationRow = {
+  idempotencyKey: string
+  chainId: string
+  dao: string
+  type: NotifyType
+  proposalId: string
+  // Number of delivery jobs enqueued for the original request.
+  queued: number
+}
+
+export enum DeliveryStatus {
+  // Recorded and not yet enqueued.
+  Pending = 'pending',
+  // Claimed by a request and enqueued, and not yet sent or out of retries.
+  Queued = 'queued',
+  Sent = 'sent',
+  // Out of retries, or failed for good. Repeating the notify request resumes
+  // these.
+  Failed = 'failed',
+}
+
+export type DeliveryRow = {
+  idempotencyKey: string
+  chatId: string
+  messageThreadId: string | null
+  status: DeliveryStatus
+}
+
+// One attempt to send a delivery job.
+export type DeliveryAttemptRow = {
+  id: number
+  idempotencyKey: string
+  registrationId: number | null
+  chainId: string
+  dao: string
+  proposalId: string
+  type: NotifyType | ScheduledMessageType
+  chatId: string
+  messageThreadId: string | null
+  attempt: number
+  ok: number
+  // Telegram error code or HTTP status, or null if sent or the channel could
+  // not be reached.
+  errorCode: number | null
+  error: string | null
+  latencyMs: number
+  // SQLite datetime in UTC.
+  createdAt: string
+}
+
+// A notification to send to one registration, enqueued by the notify route.
+export type DeliveryJob = {
+  // Identifies the notify request this job belongs to.
+  idempotencyKey: string
+  // Empty for digests, which cover many proposals.
+  chainId: string
+  dao: string
+  proposalId: string
+  type: NotifyType | ScheduledMessageType
+  chatId: string
+  messageThreadId: string | null
+  updateMode: UpdateMode
+  // MarkdownV2 for Telegram, or Markdown for other channels.
+  markdown: RenderedMessage
+  // Sent if Telegram cannot parse the MarkdownV2 message, and to generic
+  // webhooks.
+  plain?: RenderedMessage
+  // Proposal link and registration for the message's buttons. Undefined for
+  // digests.
+  url?: string
+  registrationId?: number
+  // Language of the message's buttons, defaulting to English.
+  language?: Language
+  // Channel to send through, defaulting to Telegram.
+  channel?: ChannelType
+}
+
+// Why a delivery failed, which decides what to do with it.
+export enum DeliveryErrorKind {
+  // Worth retrying later, such as rate limits and server errors.
+  Transient = 'transient',
+  // The chat (or topic) can no longer receive messages, such as when the bot
+  // was blocked or removed or a webhook was deleted, so its registrations
+  // should be removed.
+  Unreachable = 'unreachable',
+  // The group was upgraded to a supergroup, and the message should be resent
+  // to the new chat ID.
+  Migrated = 'migrated',
+  // The request itself was rejected and retrying will not help.
+  Invalid = 'invalid',
+}
+
+// Actions of inline keyboard buttons, stored in their callback data.
+export enum CallbackAction {
+  // Registration actions, with the registration ID.
+  Remove = 'remove',
+  Settings = 'settings',
+  Mute = 'mute',
+  // Chat picker actions in private chats, with the picked chat ID and topic.
+  Manage = 'manage',
+  Track = 'track',
+}
+
+// The texts of a message, used depending on how it is delivered.
+export type RenderedMessage = {
+  // Full message, sent when there is no original message to update.
+  text: string
+  // Short message, sent as a reply to the original message.
+  replyText: string
+  // Status line, appended to the original message when editing it.
+  statusLine: string
 }
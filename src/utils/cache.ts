@@ -0,0 +1,109 @@
+import { ChatAdminsRow, DaoInfoRow, Env } from '../types'
+import { DaoInfo, getDaoInfo } from './misc'
+import { callTelegram } from './telegram'
+
+// DAO names rarely change, and notifications refresh them too.
+const DAO_INFO_TTL_SECONDS = 24 * 60 * 60
+
+// Admin lists are refreshed often so removed admins lose access soon.
+const CHAT_ADMINS_TTL_SECONDS = 10 * 60
+// A user missing from a recent admin list may have just been promoted, so
+// refresh it if it is older than this.
+const CHAT_ADMINS_MIN_REFRESH_SECONDS = 60
+
+// Store the latest info for a DAO.
+export const cacheDaoInfo = async (
+  env: Env,
+  dao: string,
+  { chainId, url, value }: DaoInfo
+): Promise<void> => {
+  await env.DB.prepare(
+    'INSERT INTO dao_info (dao, chainId, name, url) VALUES (?1, ?2, ?3, ?4) ON CONFLICT (dao) DO UPDATE SET chainId = ?2, name = ?3, url = ?4, updatedAt = CURRENT_TIMESTAMP'
+  )
+    .bind(dao, chainId, value.config.name, url)
+    .run()
+}
+
+// Get a DAO's info, loading it from the indexer if the cached info is stale.
+// If the indexer cannot be reached, fall back to the last known info.
+export const getCachedDaoInfo = async (
+  env: Env,
+  dao: string
+): Promise<DaoInfo | null> => {
+  const cached = await env.DB.prepare(
+    "SELECT chainId, name, url, updatedAt >= datetime('now', ?2) AS fresh FROM dao_info WHERE dao = ?1"
+  )
+    .bind(dao, `-${DAO_INFO_TTL_SECONDS} seconds`)
+    .first<Omit<DaoInfoRow, 'dao' | 'updatedAt'> & { fresh: number }>()
+
+  const cachedInfo: DaoInfo | null = cached && {
+    chainId: cached.chainId,
+    url: cached.url,
+    value: {
+      config: {
+        name: cached.name,
+      },
+    },
+  }
+
+  if (cached?.fresh) {
+    return cachedInfo
+  }
+
+  const info = await getDaoInfo(env, dao)
+  if (!info) {
+    return cachedInfo
+  }
+
+  await cacheDaoInfo(env, dao, info)
+  return info
+}
+
+// Whether a user is an admin or owner of a group chat. The admin list is
+// cached, and the last known list is used if Telegram cannot be reached.
+export const isChatAdmin = async (
+  env: Env,
+  chatId: string,
+  userId: number
+): Promise<boolean> => {
+  const cached = await env.DB.prepare(
+    "SELECT adminIds, updatedAt >= datetime('now', ?2) AS fresh, updatedAt >= datetime('now', ?3) AS recent FROM chat_admins WHERE chatId = ?1"
+  )
+    .bind(
+      chatId,
+      `-${CHAT_ADMINS_TTL_SECONDS} seconds`,
+      `-${CHAT_ADMINS_MIN_REFRESH_SECONDS} seconds`
+    )
+    .first<
+      Pick<ChatAdminsRow, 'adminIds'> & { fresh: number; recent: number }
+    >()
+
+  const cachedAdminIds: number[] = cached ? JSON.parse(cached.adminIds) : []
+  const isCachedAdmin = cachedAdminIds.includes(userId)
+
+  if (cached?.fresh && (isCachedAdmin || cached.recent)) {
+    return isCachedAdmin
+  }
+
+  const response = await callTelegram<
+    {
+      user: { id: number }
+      status: string
+    }[]
+  >(env, 'getChatAdministrators', { chat_id: chatId }).catch(() => null)
+  if (!response?.ok) {
+    return isCachedAdmin
+  }
+
+  const adminIds = response.result
+    .filter(({ status }) => status === 'administrator' || status === 'creator')
+    .map(({ user }) => user.id)
+
+  await env.DB.prepare(
+    'INSERT INTO chat_admins (chatId, adminIds) VALUES (?1, ?2) ON CONFLICT (chatId) DO UPDATE SET adminIds = ?2, updatedAt = CURRENT_TIMESTAMP'
+  )
+    .bind(chatId, JSON.stringify(adminIds))
+    .run()
+
+  return adminIds.includes(userId)
+}
@@ -0,0 +1,168 @@
+import { ChannelRow, DeliveryErrorKind, DeliveryJob, Env } from '../types'
+import { fetchApi } from './misc'
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from './signature'
+
+// Discord messages are limited to 2000 characters.
+const MAX_DISCORD_LENGTH = 2000
+
+// https://discord.com/developers/docs/resources/message#message-object-message-flags
+const DISCORD_SUPPRESS_EMBEDS = 1 << 2
+const DISCORD_SUPPRESS_NOTIFICATIONS = 1 << 12
+
+// The result of sending a delivery job through a channel. Failures are
+// classified so the delivery queue handles every channel the same way.
+export type ChannelResponse =
+  | {
+      ok: true
+    }
+  | {
+      ok: false
+      // Telegram error code or HTTP status.
+      errorCode: number
+      description: string
+      kind: DeliveryErrorKind
+      // Seconds the channel asked to wait before retrying.
+      retryAfter?: number
+      // Whether only the topic is unreachable, and not the whole chat.
+      topicOnly?: boolean
+      // New chat ID of a Telegram group upgraded to a supergroup.
+      migrateToChatId?: string
+    }
+
+// Sends delivery jobs to one type of channel. Throws if the channel cannot be
+// reached. Silent messages are sent without a notification sound.
+export type DeliveryChannel = {
+  send: (
+    env: Env,
+    job: DeliveryJob,
+    options: { silent: boolean }
+  ) => Promise<ChannelResponse>
+}
+
+// Sent when a job's channel was deleted, so its registrations are removed too.
+const CHANNEL_NOT_FOUND: ChannelResponse = {
+  ok: false,
+  errorCode: 404,
+  description: 'Channel not found.',
+  kind: DeliveryErrorKind.Unreachable,
+}
+
+// Load a Discord or generic webhook channel by its chat ID.
+const loadChannel = (env: Env, chatId: string) =>
+  env.DB.prepare('SELECT url, secret FROM channels WHERE chatId = ?1')
+    .bind(chatId)
+    .first<Pick<ChannelRow, 'url' | 'secret'>>()
+
+// Classify a webhook's HTTP response. Deleted webhooks respond with 404 or 410.
+const getHttpChannelResponse = async (
+  response: Response
+): Promise<ChannelResponse> => {
+  if (response.ok) {
+    return { ok: true }
+  }
+
+  const retryAfter = Number(response.headers.get('Retry-After'))
+  return {
+    ok: false,
+    errorCode: response.status,
+    description:
+      (await response.text().catch(() => '')).slice(0, 500) ||
+      response.statusText,
+    kind:
+      response.status === 429 || response.status >= 500
+        ? DeliveryErrorKind.Transient
+        : response.status === 404 || response.status === 410
+        ? DeliveryErrorKind.Unreachable
+        : DeliveryErrorKind.Invalid,
+    retryAfter: retryAfter > 0 ? Math.ceil(retryAfter) : undefined,
+  }
+}
+
+// Discord webhooks cannot edit or reply to the original proposal message, so
+// status updates are sent as new messages. Mentions in proposals do not ping
+// anyone, and links do not embed previews.
+export const discordChannel: DeliveryChannel = {
+  send: async (env, { chatId, markdown }, { silent }) => {
+    const channel = await loadChannel(env, chatId)
+    if (!channel) {
+      return CHANNEL_NOT_FOUND
+    }
+
+    // Wait for the message to be sent so errors are returned.
+    const url = new URL(channel.url)
+    url.searchParams.set('wait', 'true')
+
+    const response = await fetchApi(env.WEBHOOKS, url.toString(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        content: markdown.text.slice(0, MAX_DISCORD_LENGTH),
+        allowed_mentions: { parse: [] },
+        flags:
+          DISCORD_SUPPRESS_EMBEDS |
+          (silent ? DISCORD_SUPPRESS_NOTIFICATIONS : 0),
+      }),
+    })
+
+    return getHttpChannelResponse(response)
+  },
+}
+
+// Generic webhooks receive the event as JSON, with the message in Markdown and
+// plain text. Requests are signed with the channel's secret the same way
+// notify requests are, so receivers can verify them with `verifySignature`.
+export const webhookChannel: DeliveryChannel = {
+  send: async (
+    env,
+    {
+      idempotencyKey,
+      chainId,
+      dao,
+      proposalId,
+      type,
+      chatId,
+      markdown,
+      plain,
+      url,
+    }
+  ) => {
+    const channel = await loadChannel(env, chatId)
+    if (!channel) {
+      return CHANNEL_NOT_FOUND
+    }
+
+    const body = JSON.stringify({
+      idempotencyKey,
+      type,
+      chainId,
+      dao,
+      proposalId,
+      url,
+      markdown: markdown.text,
+      text: (plain ?? markdown).text,
+    })
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+
+    const response = await fetchApi(env.WEBHOOKS, channel.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Repeated deliveries of the same event have the same key.
+        'Idempotency-Key': idempotencyKey,
+        [TIMESTAMP_HEADER]: timestamp,
+        ...(channel.secret && {
+          [SIGNATURE_HEADER]: `sha256=${await signPayload(
+            channel.secret,
+            timestamp,
+            body
+          )}`,
+        }),
+      },
+      body,
+    })
+
+    return getHttpChannelResponse(response)
+  },
+}
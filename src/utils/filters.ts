@@ -0,0 +1,123 @@
+import { FilterMode, ProposalFilter } from '../types'
+import { Message } from './i18n'
+
+// Limits that keep filters quick to check.
+export const MAX_FILTERS = 10
+export const MAX_FILTER_LENGTH = 100
+// Regexes only check the start of long proposals, to bound their run time.
+const MAX_REGEX_TEXT_LENGTH = 5_000
+
+// Regexes are written like `/pattern/flags`. Stateful flags are not allowed
+// since filters are reused across proposals.
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/s
+const REGEX_FLAGS = /^[imsu]*$/
+
+// Build the regex of a filter pattern, or undefined if it is a keyword.
+const getFilterRegex = (pattern: string): RegExp | undefined => {
+  const match = pattern.match(REGEX_PATTERN)
+  return match ? new RegExp(match[1], match[2]) : undefined
+}
+
+// Quantifiers after an atom, like `*`, `+`, `?`, and `{2,5}`.
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/
+// Group prefixes like `?:`, `?=`, `?<=`, and `?<name>`.
+const GROUP_PREFIX = /^\?(?:[:=!]|<[=!]|<[^>]*>)/
+
+// Whether a regex can take exponential time to fail, because it repeats a group
+// that itself repeats or has alternatives, like `(a+)+` or `(a|ab)*`, or uses
+// backreferences.
+const canBacktrackCatastrophically = (source: string): boolean => {
+  // Whether each enclosing group repeats or branches inside.
+  const enclosing: boolean[] = []
+  let varies = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (char === '\\') {
+      if (/[1-9k]/.test(source[i + 1] ?? '')) {
+        return true
+      }
+      i++
+    } else if (char === '[') {
+      // Skip the character class.
+      for (i++; i < source.length && source[i] !== ']'; i++) {
+        if (source[i] === '\\') {
+          i++
+        }
+      }
+    } else if (char === '(') {
+      enclosing.push(varies)
+      varies = false
+      i += source.slice(i + 1).match(GROUP_PREFIX)?.[0].length ?? 0
+    } else if (char === ')') {
+      const inner: boolean = varies
+      varies = (enclosing.pop() ?? false) || inner
+      const quantifier = source.slice(i + 1).match(QUANTIFIER)?.[0]
+      if (quantifier) {
+        if (inner && quantifier !== '?') {
+          return true
+        }
+        varies = true
+        i += quantifier.length
+      }
+    } else if (char === '|' || QUANTIFIER.test(source.slice(i))) {
+      varies = true
+    }
+  }
+
+  return false
+}
+
+// Check a filter pattern, returning why it is invalid or undefined if it is
+// valid.
+export const validateFilterPattern = (pattern: string): Message | undefined => {
+  if (!pattern.trim()) {
+    return { key: 'filterEmpty' }
+  }
+  if (pattern.length > MAX_FILTER_LENGTH) {
+    return { key: 'filterTooLong', values: { max: MAX_FILTER_LENGTH } }
+  }
+
+  const flags = pattern.match(REGEX_PATTERN)?.[2]
+  if (flags !== undefined && !REGEX_FLAGS.test(flags)) {
+    return { key: 'filterInvalidFlags' }
+  }
+
+  let regex: RegExp | undefined
+  try {
+    regex = getFilterRegex(pattern)
+  } catch (err) {
+    return {
+      key: 'filterInvalidRegex',
+      values: { error: err instanceof Error ? err.message : String(err) },
+    }
+  }
+  if (regex && canBacktrackCatastrophically(regex.source)) {
+    return { key: 'filterSlowRegex' }
+  }
+}
+
+// Whether a filter matches a proposal's text.
+const filterMatches = ({ pattern }: ProposalFilter, text: string): boolean => {
+  const regex = getFilterRegex(pattern)
+  return regex
+    ? regex.test(text.slice(0, MAX_REGEX_TEXT_LENGTH))
+    : text.toLowerCase().includes(pattern.toLowerCase())
+}
+
+// Whether a proposal passes a registration's filters. It must match one of the
+// include filters, if there are any, and none of the exclude filters. Invalid
+// filters are ignored.
+export const matchesFilters = (
+  filters: ProposalFilter[],
+  text: string
+): boolean => {
+  const valid = filters.filter(({ pattern }) => !validateFilterPattern(pattern))
+  const matches = (filter: ProposalFilter) => filterMatches(filter, text)
+
+  const include = valid.filter(({ mode }) => mode === FilterMode.Include)
+  const exclude = valid.filter(({ mode }) => mode === FilterMode.Exclude)
+  return (
+    (include.length === 0 || include.some(matches)) && !exclude.some(matches)
+  )
+}
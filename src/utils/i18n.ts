@@ -0,0 +1,105 @@
+import { CATALOGS, MessageKey } from '../locales'
+import { Language } from '../types'
+import { escapeMarkdownV2 } from './misc'
+
+// Values substituted into a message's `{name}` placeholders. Text and numbers
+// are escaped, and `{ markdown }` values, like links, are inserted as is.
+export type MessageValue = string | number | { markdown: string }
+export type MessageValues = Record<string, MessageValue>
+
+// A message translated once the language is known, like a validation error.
+export type Message = {
+  key: MessageKey
+  values?: MessageValues
+}
+
+export const DEFAULT_LANGUAGE = Language.English
+
+// `code`, *bold*, and _italic_ markup in messages.
+const MARKUP_REGEX = /(`[^`]*`|\*[^*]+\*|_[^_]+_)/
+const PLACEHOLDER_REGEX = /\{(\w+)\}/
+
+// Pick a supported language from a Telegram user's language code, like
+// `en-US`, or undefined if it is not supported.
+export const parseLanguage = (code?: string | null): Language | undefined => {
+  const tag = code?.toLowerCase().split(/[-_]/)[0]
+  return Object.values(Language).find((language) => language === tag)
+}
+
+// Get a message's text in a language, before substituting values.
+export const getMessageText = (language: Language, key: MessageKey): string =>
+  CATALOGS[language][key] ?? CATALOGS[DEFAULT_LANGUAGE][key] ?? key
+
+// Substitute values into text, rendering literal text and values. Unknown
+// placeholders are left as is.
+const substitute = (
+  text: string,
+  values: MessageValues,
+  renderText: (text: string) => string,
+  renderValue: (value: MessageValue) => string
+): string =>
+  text
+    .split(PLACEHOLDER_REGEX)
+    .map((part, index) => {
+      // Odd parts are placeholder names captured by the regex.
+      if (index % 2 === 0) {
+        return renderText(part)
+      }
+
+      const value = values[part]
+      return value === undefined ? renderText(`{${part}}`) : renderValue(value)
+    })
+    .join('')
+
+// Render a message in a language as plain text, dropping markup.
+export const translate = (
+  language: Language,
+  key: MessageKey,
+  values: MessageValues = {}
+): string =>
+  getMessageText(language, key)
+    .split(MARKUP_REGEX)
+    .map((part, index) =>
+      substitute(
+        // Odd parts are marked up.
+        index % 2 === 0 ? part : part.slice(1, -1),
+        values,
+        (text) => text,
+        (value) =>
+          typeof value === 'object' ? value.markdown : value.toString()
+      )
+    )
+    .join('')
+
+// Render a message in a language as MarkdownV2, escaping its text and values.
+export const translateMarkdown = (
+  language: Language,
+  key: MessageKey,
+  values: MessageValues = {}
+): string =>
+  getMessageText(language, key)
+    .split(MARKUP_REGEX)
+    .map((part, index) => {
+      const isMarkup = index % 2 === 1
+      const rendered = substitute(
+        isMarkup ? part.slice(1, -1) : part,
+        values,
+        escapeMarkdownV2,
+        (value) =>
+          typeof value === 'object'
+            ? value.markdown
+            : escapeMarkdownV2(value.toString())
+      )
+      return isMarkup ? part[0] + rendered + part[0] : rendered
+    })
+    .join('')
+
+// Whether text is a message in any language, like instructions the bot sent.
+export const isTranslationOf = (
+  text: string,
+  key: MessageKey,
+  values?: MessageValues
+): boolean =>
+  Object.values(Language).some(
+    (language) => translate(language, key, values) === text
+  )
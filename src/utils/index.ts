@@ -1,3 +1,13 @@
+export * from './cache'
+export * from './channels'
+export * from './filters'
+export * from './i18n'
 export * from './misc'
 export * from './objectMatchesStructure'
+export * from './quietHours'
+export * from './registrations'
 export * from './response'
+export * from './schema'
+export * from './signature'
+export * from './telegram'
+export * from './templates'
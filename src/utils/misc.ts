@@ -1,8 +1,24 @@
+import { ApiClient, Env } from '../types'
 import { objectMatchesStructure } from './objectMatchesStructure'
 
 export const escapeMarkdownV2 = (text: string) =>
   text.replace(/[\\_*\[\]\(\)~`>#+-=\|{}\.!]/g, '\\$&')
 
+// Escape a URL for the link part of a MarkdownV2 inline link.
+export const escapeMarkdownV2Url = (url: string) =>
+  url.replace(/[)\\]/g, '\\$&')
+
+// Escape text for Markdown, as Discord renders it.
+export const escapeMarkdown = (text: string) =>
+  text.replace(/[\\_*~`>#|\[\]()-]/g, '\\$&')
+
+// Send a request through an API client if set, or over the network.
+export const fetchApi = (
+  client: ApiClient | undefined,
+  url: string,
+  init?: RequestInit
+): Promise<Response> => (client ? client.fetch(url, init) : fetch(url, init))
+
 export type DaoInfo = {
   chainId: string
   url: string
@@ -13,9 +29,16 @@ export type DaoInfo = {
   }
 }
 
-export const getDaoInfo = async (dao: string): Promise<DaoInfo | null> => {
-  const info = await fetch(
-    `https://snapper.indexer.zone/q/daodao-dao-info?address=${dao}`
+export const getDaoInfo = async (
+  env: Env,
+  dao: string
+): Promise<DaoInfo | null> => {
+  const info = await fetchApi(
+    env.INDEXER,
+    `${env.INDEXER_URL.replace(
+      /\/+$/,
+      ''
+    )}/q/daodao-dao-info?address=${encodeURIComponent(dao)}`
   )
     .then((r) => r.json())
     .catch(() => null)
@@ -36,3 +59,6 @@ export const getDaoInfo = async (dao: string): Promise<DaoInfo | null> => {
 
   return info as DaoInfo
 }
+
+export const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms))
@@ -0,0 +1,72 @@
+import { ChatSettingsRow } from '../types'
+
+const MINUTES_PER_DAY = 24 * 60
+
+// Parse a time of day like `22:00` into minutes after midnight.
+export const parseTimeOfDay = (text: string): number | undefined => {
+  const match = text.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) {
+    return
+  }
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined
+}
+
+// Format minutes after midnight as a time of day like `22:00`.
+export const formatTimeOfDay = (minutes: number): string =>
+  [Math.floor(minutes / 60), minutes % 60]
+    .map((part) => part.toString().padStart(2, '0'))
+    .join(':')
+
+// Parse an IANA time zone, like `Europe/Berlin`, into its canonical name.
+export const parseTimeZone = (text: string): string | undefined => {
+  try {
+    return new Intl.DateTimeFormat('en-US', {
+      timeZone: text,
+    }).resolvedOptions().timeZone
+  } catch {
+    return
+  }
+}
+
+// Get when a chat's quiet hours end if they are in effect at the given time,
+// or undefined if they are not.
+export const getQuietHoursEnd = (
+  {
+    quietHoursStart,
+    quietHoursEnd,
+    timeZone,
+  }: Pick<ChatSettingsRow, 'quietHoursStart' | 'quietHoursEnd' | 'timeZone'>,
+  now = new Date()
+): Date | undefined => {
+  if (quietHoursStart === null || quietHoursEnd === null) {
+    return
+  }
+
+  // The time of day in the chat's time zone.
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0)
+  const minutes = getPart('hour') * 60 + getPart('minute')
+
+  // Quiet hours may span midnight, like 22:00 to 08:00.
+  const isQuiet =
+    quietHoursStart < quietHoursEnd
+      ? minutes >= quietHoursStart && minutes < quietHoursEnd
+      : minutes >= quietHoursStart || minutes < quietHoursEnd
+  if (!isQuiet) {
+    return
+  }
+
+  const minutesLeft =
+    (quietHoursEnd - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  const startOfMinute = Math.floor(now.getTime() / 60_000) * 60_000
+  return new Date(startOfMinute + minutesLeft * 60_000)
+}
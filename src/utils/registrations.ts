@@ -0,0 +1,107 @@
+import { Env, RegistrationRow } from '../types'
+
+// Remove all registrations, sent proposal messages, and held digest events and
+// deliveries for a chat. If a message thread ID is provided, only remove those
+// for that topic. Otherwise, remove the chat's settings, cached admins, known
+// topics, and channel too, and stop managing it from private chats.
+export const deleteChatRegistrations = async (
+  env: Env,
+  chatId: string,
+  messageThreadId?: string | null
+): Promise<void> => {
+  await env.DB.batch([
+    ...[
+      'registrations',
+      'proposal_messages',
+      'digest_events',
+      'held_deliveries',
+      'chat_topics',
+      ...(messageThreadId === undefined
+        ? ['chat_settings', 'chat_admins', 'chats', 'channels']
+        : []),
+    ].map((table) =>
+      messageThreadId === undefined
+        ? env.DB.prepare(`DELETE FROM ${table} WHERE chatId = ?1`).bind(chatId)
+        : env.DB.prepare(
+            `DELETE FROM ${table} WHERE chatId = ?1 AND messageThreadId IS ?2`
+          ).bind(chatId, messageThreadId)
+    ),
+    messageThreadId === undefined
+      ? env.DB.prepare(
+          'UPDATE manage_sessions SET chatId = NULL, messageThreadId = NULL, updatedAt = CURRENT_TIMESTAMP WHERE chatId = ?1'
+        ).bind(chatId)
+      : env.DB.prepare(
+          'UPDATE manage_sessions SET messageThreadId = NULL, updatedAt = CURRENT_TIMESTAMP WHERE chatId = ?1 AND messageThreadId IS ?2'
+        ).bind(chatId, messageThreadId),
+  ])
+}
+
+// Remove a chat's registration for a DAO, along with its sent proposal
+// messages, and held digest events and deliveries.
+export const deleteDaoRegistration = async (
+  env: Env,
+  {
+    chainId,
+    dao,
+    chatId,
+    messageThreadId,
+  }: Pick<RegistrationRow, 'chainId' | 'dao' | 'chatId' | 'messageThreadId'>
+): Promise<void> => {
+  await env.DB.batch([
+    ...['registrations', 'proposal_messages', 'digest_events'].map((table) =>
+      env.DB.prepare(
+        `DELETE FROM ${table} WHERE chainId = ?1 AND dao = ?2 AND chatId = ?3 AND messageThreadId IS ?4`
+      ).bind(chainId, dao, chatId, messageThreadId)
+    ),
+    env.DB.prepare(
+      "DELETE FROM held_deliveries WHERE json_extract(job, '$.chainId') = ?1 AND json_extract(job, '$.dao') = ?2 AND chatId = ?3 AND messageThreadId IS ?4"
+    ).bind(chainId, dao, chatId, messageThreadId),
+  ])
+}
+
+// Move all registrations from one chat ID to another, such as when a group is
+// upgraded to a supergroup. Registrations that already exist in the new chat
+// are dropped, as are sent proposal messages since they can no longer be
+// edited or replied to, and cached admins since the new chat's admins are
+// loaded when needed. Deliveries, held digest events and deliveries, chat
+// settings, known topics, and private chats managing it move too.
+export const migrateChatRegistrations = async (
+  env: Env,
+  fromChatId: string,
+  toChatId: string
+): Promise<void> => {
+  await env.DB.batch([
+    env.DB.prepare(
+      'UPDATE OR IGNORE registrations SET chatId = ?2, updatedAt = CURRENT_TIMESTAMP WHERE chatId = ?1'
+    ).bind(fromChatId, toChatId),
+    env.DB.prepare('DELETE FROM registrations WHERE chatId = ?1').bind(
+      fromChatId
+    ),
+    env.DB.prepare(
+      'UPDATE OR IGNORE deliveries SET chatId = ?2, updatedAt = CURRENT_TIMESTAMP WHERE chatId = ?1'
+    ).bind(fromChatId, toChatId),
+    env.DB.prepare(
+      'UPDATE digest_events SET chatId = ?2 WHERE chatId = ?1'
+    ).bind(fromChatId, toChatId),
+    env.DB.prepare(
+      "UPDATE held_deliveries SET chatId = ?2, job = json_set(job, '$.chatId', ?2) WHERE chatId = ?1"
+    ).bind(fromChatId, toChatId),
+    ...['chat_settings', 'chats', 'chat_topics'].map((table) =>
+      env.DB.prepare(
+        `UPDATE OR IGNORE ${table} SET chatId = ?2, updatedAt = CURRENT_TIMESTAMP WHERE chatId = ?1`
+      ).bind(fromChatId, toChatId)
+    ),
+    env.DB.prepare(
+      'UPDATE manage_sessions SET chatId = ?2, updatedAt = CURRENT_TIMESTAMP WHERE chatId = ?1'
+    ).bind(fromChatId, toChatId),
+    ...[
+      'chat_settings',
+      'chat_admins',
+      'chats',
+      'chat_topics',
+      'proposal_messages',
+    ].map((table) =>
+      env.DB.prepare(`DELETE FROM ${table} WHERE chatId = ?1`).bind(fromChatId)
+    ),
+  ])
+}
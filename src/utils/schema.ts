@@ -0,0 +1,89 @@
+export type FieldSchema = {
+  // `id` accepts a string or a number, `url` an http(s) URL, and `date` an ISO
+  // 8601 date string or a Unix timestamp in milliseconds.
+  type: 'string' | 'number' | 'id' | 'url' | 'date'
+  optional?: boolean
+  // Whether a required string may be empty, such as a description.
+  allowEmpty?: boolean
+  // Inclusive bounds for numbers.
+  min?: number
+  max?: number
+}
+
+export type Schema = Record<string, FieldSchema>
+
+// Check a single value against its field schema, returning why it fails or
+// undefined if it is valid.
+const validateField = (
+  value: unknown,
+  { type, optional, allowEmpty, min, max }: FieldSchema
+): string | undefined => {
+  if (value === undefined || value === null) {
+    return optional ? undefined : 'is required'
+  }
+
+  switch (type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return 'must be a string'
+      }
+      if (!optional && !allowEmpty && !value.trim()) {
+        return 'must not be empty'
+      }
+      break
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'must be a number'
+      }
+      if (
+        (min !== undefined && value < min) ||
+        (max !== undefined && value > max)
+      ) {
+        return `must be between ${min ?? '-∞'} and ${max ?? '∞'}`
+      }
+      break
+
+    case 'id':
+      if (
+        (typeof value !== 'string' || !value.trim()) &&
+        typeof value !== 'number'
+      ) {
+        return 'must be a string or number'
+      }
+      break
+
+    case 'url': {
+      let url: URL | undefined
+      try {
+        url = typeof value === 'string' ? new URL(value) : undefined
+      } catch {
+        // Handled below.
+      }
+      if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+        return 'must be an http(s) URL'
+      }
+      break
+    }
+
+    case 'date':
+      if (
+        (typeof value !== 'string' && typeof value !== 'number') ||
+        isNaN(new Date(value).getTime())
+      ) {
+        return 'must be an ISO 8601 date or a Unix timestamp in milliseconds'
+      }
+      break
+  }
+}
+
+// Validate an object against a schema. Returns why each failing field fails,
+// which is empty if the object is valid.
+export const validateSchema = (
+  object: Record<string, unknown>,
+  schema: Schema
+): Record<string, string> =>
+  Object.entries(schema).reduce((errors, [key, field]) => {
+    const error = validateField(object[key], field)
+    return error ? { ...errors, [key]: error } : errors
+  }, {} as Record<string, string>)
@@ -0,0 +1,87 @@
+// Headers of signed requests, both to the notify route and to webhooks.
+export const SIGNATURE_HEADER = 'X-Signature'
+export const TIMESTAMP_HEADER = 'X-Signature-Timestamp'
+
+// Signed requests older than this are rejected to block replays.
+const MAX_SIGNATURE_AGE_SECONDS = 5 * 60
+
+const encoder = new TextEncoder()
+
+const importHmacKey = (key: string, usage: 'sign' | 'verify') =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  )
+
+// Compare two strings in constant time.
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const aBytes = encoder.encode(a)
+  const bBytes = encoder.encode(b)
+
+  let diff = aBytes.length ^ bBytes.length
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ (bBytes[i] ?? 0)
+  }
+
+  return diff === 0
+}
+
+// Verify a hex HMAC-SHA256 signature of `<timestamp>.<body>` made with any of
+// the keys, where the timestamp is in Unix seconds. Returns an error if the
+// signature is invalid.
+export const verifySignature = async (
+  keys: string[],
+  timestamp: string,
+  signature: string,
+  body: string
+): Promise<string | undefined> => {
+  const seconds = Number(timestamp)
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(seconds)) {
+    return 'Invalid signature timestamp.'
+  }
+  if (Math.abs(Date.now() / 1000 - seconds) > MAX_SIGNATURE_AGE_SECONDS) {
+    return 'Signature timestamp is too old.'
+  }
+
+  const hex = signature.replace(/^sha256=/, '')
+  if (!/^[0-9a-f]{64}$/i.test(hex)) {
+    return 'Invalid signature.'
+  }
+  const signatureBytes = new Uint8Array(
+    hex.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []
+  )
+  const message = encoder.encode(`${timestamp}.${body}`)
+
+  // `verify` compares in constant time.
+  for (const key of keys) {
+    const cryptoKey = await importHmacKey(key, 'verify')
+    if (
+      await crypto.subtle.verify('HMAC', cryptoKey, signatureBytes, message)
+    ) {
+      return
+    }
+  }
+
+  return 'Invalid signature.'
+}
+
+// Sign `<timestamp>.<body>` with a key the way `verifySignature` expects,
+// returning the hex HMAC-SHA256 signature.
+export const signPayload = async (
+  key: string,
+  timestamp: string,
+  body: string
+): Promise<string> => {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importHmacKey(key, 'sign'),
+    encoder.encode(`${timestamp}.${body}`)
+  )
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
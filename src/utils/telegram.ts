@@ -0,0 +1,219 @@
+import { CallbackAction, DeliveryErrorKind, Env } from '../types'
+import { DEFAULT_LANGUAGE, translate } from './i18n'
+import { fetchApi } from './misc'
+
+// https://core.telegram.org/bots/api#making-requests
+export type TelegramResponse<T = unknown> =
+  | {
+      ok: true
+      result: T
+    }
+  | {
+      ok: false
+      error_code: number
+      description: string
+      // https://core.telegram.org/bots/api#responseparameters
+      parameters?: {
+        migrate_to_chat_id?: number
+        retry_after?: number
+      }
+    }
+
+// https://core.telegram.org/bots/api#message
+export type TelegramSentMessage = {
+  message_id: number
+}
+
+// https://core.telegram.org/bots/api#inlinekeyboardmarkup
+export type TelegramInlineKeyboardMarkup = {
+  inline_keyboard: {
+    text: string
+    url?: string
+    callback_data?: string
+  }[][]
+}
+
+// Call a Telegram Bot API method. Throws if the request fails or the response
+// is not valid JSON.
+export const callTelegram = async <T = unknown>(
+  env: Env,
+  method: string,
+  body: Record<string, unknown>
+): Promise<TelegramResponse<T>> => {
+  const response = await fetchApi(
+    env.TELEGRAM,
+    `https://api.telegram.org/bot${env.BOT_TOKEN}/${method}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    }
+  )
+
+  return response.json<TelegramResponse<T>>()
+}
+
+// Send a file as a document. Files need a multipart request, so they cannot be
+// sent in webhook responses.
+export const sendTelegramDocument = async (
+  env: Env,
+  body: Record<string, string | number | undefined>,
+  file: { name: string; type: string; content: string }
+): Promise<TelegramResponse<TelegramSentMessage>> => {
+  const form = new FormData()
+  Object.entries(body).forEach(([key, value]) => {
+    if (value !== undefined) {
+      form.append(key, String(value))
+    }
+  })
+  form.append(
+    'document',
+    new Blob([file.content], { type: file.type }),
+    file.name
+  )
+
+  const response = await fetchApi(
+    env.TELEGRAM,
+    `https://api.telegram.org/bot${env.BOT_TOKEN}/sendDocument`,
+    {
+      method: 'POST',
+      body: form,
+    }
+  )
+
+  return response.json<TelegramResponse<TelegramSentMessage>>()
+}
+
+// Download the text of a file sent to the bot, or null if it cannot be
+// downloaded.
+export const downloadTelegramFile = async (
+  env: Env,
+  fileId: string
+): Promise<string | null> => {
+  const file = await callTelegram<{ file_path?: string }>(env, 'getFile', {
+    file_id: fileId,
+  })
+  if (!file.ok || !file.result.file_path) {
+    return null
+  }
+
+  const response = await fetchApi(
+    env.TELEGRAM,
+    `https://api.telegram.org/file/bot${env.BOT_TOKEN}/${file.result.file_path}`
+  )
+  return response.ok ? response.text() : null
+}
+
+// The bot's username, loaded once per worker instance.
+let botUsername: Promise<string> | undefined
+
+// Get the bot's username from the environment, or from Telegram.
+export const getBotUsername = (env: Env): Promise<string> => {
+  if (env.BOT_USERNAME) {
+    return Promise.resolve(env.BOT_USERNAME)
+  }
+
+  if (!botUsername) {
+    botUsername = callTelegram<{ username: string }>(env, 'getMe', {})
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`getMe failed: ${response.description}`)
+        }
+        return response.result.username
+      })
+      .catch((err) => {
+        // Try again on the next call.
+        botUsername = undefined
+        throw err
+      })
+  }
+
+  return botUsername
+}
+
+// Descriptions of 400 errors that mean the chat or topic is gone for good.
+const UNREACHABLE_DESCRIPTIONS = [
+  /chat not found/i,
+  /group chat was deactivated/i,
+  /message thread not found/i,
+  /topic_deleted/i,
+]
+
+// Classify a failed Telegram response.
+export const getTelegramErrorKind = (
+  response: Extract<TelegramResponse, { ok: false }>
+): DeliveryErrorKind => {
+  if (response.parameters?.migrate_to_chat_id) {
+    return DeliveryErrorKind.Migrated
+  }
+
+  if (response.error_code === 429 || response.error_code >= 500) {
+    return DeliveryErrorKind.Transient
+  }
+
+  if (
+    response.error_code === 403 ||
+    (response.error_code === 400 &&
+      UNREACHABLE_DESCRIPTIONS.some((regex) =>
+        regex.test(response.description)
+      ))
+  ) {
+    return DeliveryErrorKind.Unreachable
+  }
+
+  return DeliveryErrorKind.Invalid
+}
+
+// Whether an unreachable error only affects the topic and not the whole chat.
+export const isTopicError = (
+  response: Extract<TelegramResponse, { ok: false }>
+): boolean =>
+  /message thread not found|topic_deleted/i.test(response.description)
+
+// Whether Telegram rejected a message because it could not parse its markup.
+export const isParseError = (
+  response: Extract<TelegramResponse, { ok: false }>
+): boolean => /can't parse entities/i.test(response.description)
+
+// Encode a button action and its arguments. Telegram allows at most 64 bytes,
+// which is too short for some DAO addresses, so refer to rows by ID instead.
+export const encodeCallbackData = (
+  action: CallbackAction,
+  ...args: (string | number)[]
+): string => [action, ...args].join(':')
+
+// Decode the callback data of a pressed button.
+export const parseCallbackData = (
+  data: string
+): { action: CallbackAction; args: string[] } | undefined => {
+  const [action, ...args] = data.split(':')
+  return Object.values(CallbackAction).includes(action as CallbackAction)
+    ? { action: action as CallbackAction, args }
+    : undefined
+}
+
+// Buttons sent with proposal notifications.
+export const getProposalKeyboard = (
+  url: string,
+  registrationId?: number,
+  language = DEFAULT_LANGUAGE
+): TelegramInlineKeyboardMarkup => ({
+  inline_keyboard: [
+    [
+      { text: translate(language, 'buttonViewProposal'), url },
+      ...(registrationId !== undefined
+        ? [
+            {
+              text: translate(language, 'buttonMuteDao'),
+              callback_data: encodeCallbackData(
+                CallbackAction.Mute,
+                registrationId
+              ),
+            },
+          ]
+        : []),
+    ],
+  ],
+})
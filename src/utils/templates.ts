@@ -0,0 +1,259 @@
+import { MessageKey } from '../locales'
+import {
+  ChannelType,
+  ChatSettingsRow,
+  DeliveryJob,
+  Language,
+  NotifyType,
+  RenderedMessage,
+  ScheduledMessageType,
+} from '../types'
+import { DEFAULT_LANGUAGE, getMessageText, translate } from './i18n'
+import { escapeMarkdown, escapeMarkdownV2, escapeMarkdownV2Url } from './misc'
+
+// Messages that can be rendered from a template.
+export type TemplateName = NotifyType | ScheduledMessageType.Reminder
+
+export type TemplateLink = {
+  label: string
+  url: string
+}
+
+// Values substituted into templates. `proposal` and `dao` render as links.
+export type TemplateVariables = {
+  proposal: TemplateLink
+  dao: TemplateLink
+  daoName: string
+  proposalId: string
+  title: string
+  description?: string
+  outcome?: string
+  status?: string
+  voter?: string
+  vote?: string
+  votingPower?: string
+  vetoer?: string
+  timelockEnd?: string
+  timeLeft?: string
+}
+
+// Per-chat customization.
+export type TemplateOptions = {
+  // Header template, replacing the default for this message.
+  header?: string
+  // Maximum description length. 0 leaves out the description.
+  descriptionLength?: number
+  // Language of the default header and labels.
+  language?: Language
+}
+
+export const DEFAULT_DESCRIPTION_LENGTH = 500
+
+// Messages with the default header line for each message, in each language.
+// `{{variable}}` placeholders are replaced with escaped values.
+const DEFAULT_HEADER_TEMPLATE_KEYS: Record<TemplateName, MessageKey> = {
+  [NotifyType.ProposalCreated]: 'headerProposalCreated',
+  [NotifyType.ProposalExecuted]: 'headerProposalExecuted',
+  [NotifyType.ProposalExecutionFailed]: 'headerProposalExecutionFailed',
+  [NotifyType.ProposalClosed]: 'headerProposalClosed',
+  [NotifyType.ProposalVetoed]: 'headerProposalVetoed',
+  [NotifyType.ProposalVetoTimelock]: 'headerProposalVetoTimelock',
+  [NotifyType.VoteCast]: 'headerVoteCast',
+  [ScheduledMessageType.Reminder]: 'headerReminder',
+}
+
+// Get the default header template of a message in a language.
+export const getDefaultHeaderTemplate = (
+  name: TemplateName,
+  language = DEFAULT_LANGUAGE
+): string => getMessageText(language, DEFAULT_HEADER_TEMPLATE_KEYS[name])
+
+const COMMON_VARIABLES: (keyof TemplateVariables)[] = [
+  'proposal',
+  'dao',
+  'daoName',
+  'proposalId',
+  'title',
+]
+
+// Variables available in each message's templates.
+export const TEMPLATE_VARIABLES: Record<
+  TemplateName,
+  (keyof TemplateVariables)[]
+> = {
+  [NotifyType.ProposalCreated]: COMMON_VARIABLES,
+  [NotifyType.ProposalExecuted]: [...COMMON_VARIABLES, 'status', 'outcome'],
+  [NotifyType.ProposalExecutionFailed]: [
+    ...COMMON_VARIABLES,
+    'status',
+    'outcome',
+  ],
+  [NotifyType.ProposalClosed]: [...COMMON_VARIABLES, 'status'],
+  [NotifyType.ProposalVetoed]: [...COMMON_VARIABLES, 'status', 'vetoer'],
+  [NotifyType.ProposalVetoTimelock]: [
+    ...COMMON_VARIABLES,
+    'status',
+    'vetoer',
+    'timelockEnd',
+  ],
+  [NotifyType.VoteCast]: [...COMMON_VARIABLES, 'voter', 'vote', 'votingPower'],
+  [ScheduledMessageType.Reminder]: [...COMMON_VARIABLES, 'timeLeft'],
+}
+
+const PLACEHOLDER_REGEX = /\{\{\s*(\w+)\s*\}\}/g
+
+// Get the placeholders in a template that are not available for a message.
+export const getUnknownPlaceholders = (
+  name: TemplateName,
+  template: string
+): string[] =>
+  Array.from(template.matchAll(PLACEHOLDER_REGEX))
+    .map(([, variable]) => variable)
+    .filter(
+      (variable) =>
+        !TEMPLATE_VARIABLES[name].includes(variable as keyof TemplateVariables)
+    )
+
+// Formats and escapes the parts of a message for one output format.
+export type TemplateRenderer = {
+  // Telegram `parse_mode`, if any.
+  parseMode?: 'MarkdownV2'
+  text: (text: string) => string
+  link: (link: TemplateLink) => string
+  bold: (rendered: string) => string
+  italic: (rendered: string) => string
+  quote: (renderedLines: string[]) => string
+}
+
+export const markdownV2Renderer: TemplateRenderer = {
+  parseMode: 'MarkdownV2',
+  text: escapeMarkdownV2,
+  link: ({ label, url }) =>
+    `[${escapeMarkdownV2(label)}](${escapeMarkdownV2Url(url)})`,
+  bold: (rendered) => `*${rendered}*`,
+  italic: (rendered) => `_${rendered}_`,
+  quote: (renderedLines) => '>' + renderedLines.join('\n>'),
+}
+
+// Markdown as Discord renders it. Link URLs in angle brackets do not embed a
+// preview.
+export const markdownRenderer: TemplateRenderer = {
+  text: escapeMarkdown,
+  link: ({ label, url }) => `[${escapeMarkdown(label)}](<${url}>)`,
+  bold: (rendered) => `**${rendered}**`,
+  italic: (rendered) => `_${rendered}_`,
+  quote: (renderedLines) => renderedLines.map((line) => `> ${line}`).join('\n'),
+}
+
+export const plainTextRenderer: TemplateRenderer = {
+  text: (text) => text,
+  link: ({ label, url }) => `${label} (${url})`,
+  bold: (rendered) => rendered,
+  italic: (rendered) => rendered,
+  quote: (renderedLines) => renderedLines.join('\n'),
+}
+
+// Render a template, escaping literal text and substituted values.
+// Placeholders for missing variables are left out.
+export const renderTemplate = (
+  template: string,
+  variables: TemplateVariables,
+  renderer: TemplateRenderer
+): string =>
+  template
+    .split(PLACEHOLDER_REGEX)
+    .map((part, index) => {
+      // Odd parts are variable names captured by the regex.
+      if (index % 2 === 0) {
+        return renderer.text(part)
+      }
+
+      const value = variables[part as keyof TemplateVariables]
+      return value === undefined
+        ? ''
+        : typeof value === 'string'
+        ? renderer.text(value)
+        : renderer.link(value)
+    })
+    .join('')
+
+// Render a message: an italic header line followed by the proposal title,
+// description, and outcome, quoted.
+export const renderMessage = (
+  name: TemplateName,
+  variables: TemplateVariables,
+  {
+    header: headerTemplate,
+    descriptionLength,
+    language = DEFAULT_LANGUAGE,
+  }: TemplateOptions,
+  renderer: TemplateRenderer
+): RenderedMessage => {
+  const header = renderTemplate(
+    headerTemplate ?? getDefaultHeaderTemplate(name, language),
+    variables,
+    renderer
+  )
+
+  const maxDescriptionLength = descriptionLength ?? DEFAULT_DESCRIPTION_LENGTH
+  let description = (variables.description ?? '').trim()
+  if (description.length > maxDescriptionLength) {
+    description = description.slice(0, maxDescriptionLength).trim() + '...'
+  }
+  if (maxDescriptionLength === 0) {
+    description = ''
+  }
+
+  const outcome = variables.outcome
+    ? `${renderer.text(translate(language, 'outcomeLabel'))} ${renderer.bold(
+        renderer.text(variables.outcome)
+      )}`
+    : ''
+
+  const quoted = [
+    renderer.bold(renderer.text(variables.title)),
+    ...(description ? ['', ...renderer.text(description).split('\n')] : []),
+    ...(outcome ? ['', outcome] : []),
+  ]
+
+  return {
+    text: `${renderer.italic(header)}\n\n${renderer.quote(quoted)}`,
+    replyText: `${renderer.italic(header)}${outcome ? `\n\n${outcome}` : ''}`,
+    statusLine: `${renderer.bold(
+      renderer.text(translate(language, 'updateLabel'))
+    )} ${header}${outcome ? ` ${outcome}` : ''}`,
+  }
+}
+
+// Get a chat's options for a message from its settings, which may be missing.
+export const getTemplateOptions = (
+  name: TemplateName,
+  {
+    templates,
+    descriptionLength,
+    language,
+  }: Pick<ChatSettingsRow, 'templates' | 'descriptionLength' | 'language'>
+): TemplateOptions => ({
+  header: templates
+    ? (JSON.parse(templates) as Partial<Record<TemplateName, string>>)[name]
+    : undefined,
+  descriptionLength: descriptionLength ?? undefined,
+  language: language ?? undefined,
+})
+
+// Render a message for delivery through a channel, in MarkdownV2 for Telegram
+// or Markdown for others, with plain text too.
+export const renderDeliveryMessages = (
+  name: TemplateName,
+  variables: TemplateVariables,
+  options: TemplateOptions,
+  channel = ChannelType.Telegram
+): Pick<DeliveryJob, 'markdown' | 'plain'> => ({
+  markdown: renderMessage(
+    name,
+    variables,
+    options,
+    channel === ChannelType.Telegram ? markdownV2Renderer : markdownRenderer
+  ),
+  plain: renderMessage(name, variables, options, plainTextRenderer),
+})
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { DeliveryJob } from '../src/types'
+import {
+  TestContext,
+  createTestContext,
+  deliverJobs,
+  resetDatabase,
+  sendAdminRequest,
+  sendNotify,
+} from './helpers'
+import proposalCreated from './fixtures/notify/proposal-created.json'
+
+const CHAT_ID = '5001'
+const DAO_PATH = 'neutron-1/neutron1dao'
+
+// Track the fixture DAO in a chat muted for a day, and hold a notification.
+const holdNotification = async (context: TestContext) => {
+  await context.env.DB.prepare(
+    "INSERT INTO registrations (chainId, dao, chatId, mutedUntil) VALUES ('neutron-1', 'neutron1dao', ?1, datetime('now', '+1 day'))"
+  )
+    .bind(CHAT_ID)
+    .run()
+
+  await sendNotify(context, DAO_PATH, proposalCreated)
+  await deliverJobs(context)
+}
+
+const getHeldDeliveries = async ({ env }: TestContext) =>
+  (
+    await env.DB.prepare(
+      'SELECT chatId, messageThreadId, job FROM held_deliveries'
+    ).all<{ chatId: string; messageThreadId: string | null; job: string }>()
+  ).results.map(({ job, ...row }) => ({
+    ...row,
+    job: JSON.parse(job) as DeliveryJob,
+  }))
+
+describe('admin', () => {
+  let context: TestContext
+  beforeEach(async () => {
+    await resetDatabase()
+    context = createTestContext()
+  })
+
+  it('rejects registration IDs that are not positive integers', async () => {
+    for (const id of ['abc', '0', '1.5']) {
+      const response = await sendAdminRequest(
+        context,
+        'DELETE',
+        `registrations/${id}`
+      )
+
+      expect(response.status).toBe(400)
+    }
+  })
+
+  it('moves held notifications with their registration', async () => {
+    await holdNotification(context)
+
+    const response = await sendAdminRequest(
+      context,
+      'POST',
+      'registrations/1/move',
+      { chatId: '5002', messageThreadId: '7' }
+    )
+
+    expect(response.status).toBe(200)
+    expect(await getHeldDeliveries(context)).toEqual([
+      {
+        chatId: '5002',
+        messageThreadId: '7',
+        job: expect.objectContaining({
+          chatId: '5002',
+          messageThreadId: '7',
+          registrationId: 1,
+        }),
+      },
+    ])
+  })
+
+  it('deletes held notifications with their registration', async () => {
+    await holdNotification(context)
+
+    const response = await sendAdminRequest(
+      context,
+      'DELETE',
+      'registrations/1'
+    )
+
+    expect(response.status).toBe(200)
+    expect(await getHeldDeliveries(context)).toEqual([])
+  })
+})
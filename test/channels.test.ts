@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { ChannelRow } from '../src/types'
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifySignature,
+} from '../src/utils'
+import {
+  TestContext,
+  createTestContext,
+  deliverJobs,
+  resetDatabase,
+  sendAdminRequest,
+  sendNotify,
+} from './helpers'
+import proposalCreated from './fixtures/notify/proposal-created.json'
+
+const DAO_PATH = 'neutron-1/neutron1dao'
+const DISCORD_URL = 'https://discord.com/api/webhooks/1234/token'
+const WEBHOOK_URL = 'https://hooks.example.com/dao-dao'
+const WEBHOOK_SECRET = 'channel-secret'
+
+// Add a channel through the admin API and track the fixture DAO in it.
+const addChannel = async (
+  context: TestContext,
+  body: Record<string, unknown>
+): Promise<ChannelRow> => {
+  const { channel } = await (
+    await sendAdminRequest(context, 'POST', 'channels', body)
+  ).json<{ channel: ChannelRow }>()
+
+  const response = await sendAdminRequest(
+    context,
+    'POST',
+    `channels/${channel.id}/registrations`,
+    { dao: 'neutron1dao' }
+  )
+  expect(response.status).toBe(200)
+
+  return channel
+}
+
+describe('channels', () => {
+  let context: TestContext
+  beforeEach(async () => {
+    await resetDatabase()
+    context = createTestContext()
+  })
+
+  it('sends notifications to Discord webhooks', async () => {
+    await addChannel(context, { type: 'discord', url: DISCORD_URL })
+
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+
+    expect(context.telegramCalls).toEqual([])
+    expect(context.webhookCalls).toHaveLength(1)
+
+    const [{ url, body }] = context.webhookCalls
+    expect(url).toBe(`${DISCORD_URL}?wait=true`)
+    expect(JSON.parse(body)).toMatchObject({
+      content: expect.stringContaining('Fund the grants program'),
+      allowed_mentions: { parse: [] },
+    })
+  })
+
+  it('signs generic webhook requests', async () => {
+    await addChannel(context, {
+      type: 'webhook',
+      url: WEBHOOK_URL,
+      secret: WEBHOOK_SECRET,
+    })
+
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+
+    const [{ url, headers, body }] = context.webhookCalls
+    expect(url).toBe(WEBHOOK_URL)
+    expect(headers['idempotency-key']).toBe(proposalCreated.idempotencyKey)
+    expect(
+      await verifySignature(
+        [WEBHOOK_SECRET],
+        headers[TIMESTAMP_HEADER.toLowerCase()],
+        headers[SIGNATURE_HEADER.toLowerCase()],
+        body
+      )
+    ).toBeUndefined()
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'proposal_created',
+      chainId: 'neutron-1',
+      dao: 'neutron1dao',
+      proposalId: 'A12',
+    })
+  })
+
+  it('deletes channels whose webhook is gone', async () => {
+    await addChannel(context, { type: 'webhook', url: WEBHOOK_URL })
+    context.webhook = () => new Response('Unknown Webhook', { status: 404 })
+
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+
+    expect(
+      await context.env.DB.prepare(
+        'SELECT COUNT(*) AS count FROM channels'
+      ).first('count')
+    ).toBe(0)
+    expect(
+      await context.env.DB.prepare(
+        'SELECT COUNT(*) AS count FROM registrations'
+      ).first('count')
+    ).toBe(0)
+  })
+})
@@ -0,0 +1,9 @@
+import { Env } from '../src/types'
+
+declare module 'cloudflare:test' {
+  // Bindings configured in `vitest.config.ts`.
+  interface ProvidedEnv extends Env {
+    // Migrations in `migrations/`, checked against `schema.sql`.
+    TEST_MIGRATIONS: D1Migration[]
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  createExecutionContext,
+  createMessageBatch,
+  env,
+  getQueueResult,
+} from 'cloudflare:test'
+
+import schema from '../schema.sql?raw'
+import worker from '../src'
+import { ApiClient, DeliveryJob, Env } from '../src/types'
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  TelegramResponse,
+  signPayload,
+} from '../src/utils'
+import daoInfo from './fixtures/indexer-dao-info.json'
+
+// A request the worker sent to the mocked Telegram Bot API.
+export type TelegramCall = {
+  method: string
+  body: Record<string, unknown>
+}
+
+// Responds to a Telegram Bot API method, or undefined to respond with the
+// default result.
+export type TelegramHandler = (
+  body: Record<string, unknown>
+) => TelegramResponse | undefined
+
+// A request the worker sent to a Discord or generic webhook.
+export type WebhookCall = {
+  url: string
+  headers: Record<string, string>
+  body: string
+}
+
+// The worker's environment with mocked APIs and queues, and what was sent to
+// them.
+export type TestContext = {
+  env: Env
+  telegramCalls: TelegramCall[]
+  // Handlers for Telegram Bot API methods, by method name.
+  telegram: Record<string, TelegramHandler>
+  webhookCalls: WebhookCall[]
+  // Responds to webhook requests, or undefined to respond with 204.
+  webhook?: (call: WebhookCall) => Response | undefined
+  jobs: DeliveryJob[]
+  deadLetters: DeliveryJob[]
+}
+
+// Recreate every table in the local D1 database from `schema.sql`.
+export const resetDatabase = async () => {
+  const statements = schema
+    .replace(/--.*$/gm, '')
+    .split(';')
+    .map((statement) => statement.trim())
+    .filter(Boolean)
+
+  await env.DB.batch(statements.map((statement) => env.DB.prepare(statement)))
+}
+
+// A mocked Telegram Bot API. Sent messages get increasing message IDs.
+const mockTelegram = (
+  calls: TelegramCall[],
+  handlers: Record<string, TelegramHandler>
+): ApiClient => {
+  let nextMessageId = 1000
+
+  return {
+    fetch: async (url, init) => {
+      const method = new URL(url).pathname.split('/').pop() ?? ''
+      const body = typeof init?.body === 'string' ? JSON.parse(init.body) : {}
+      calls.push({ method, body })
+
+      const response: TelegramResponse = handlers[method]?.(body) ?? {
+        ok: true,
+        result:
+          method === 'sendMessage'
+            ? { message_id: nextMessageId++, chat: { id: body.chat_id } }
+            : true,
+      }
+      return Response.json(response, {
+        status: response.ok ? 200 : response.error_code,
+      })
+    },
+  }
+}
+
+// A mocked indexer that knows about the DAO in the fixtures.
+const mockIndexer = (): ApiClient => ({
+  fetch: async (url) =>
+    new URL(url).searchParams.get('address') === 'neutron1dao'
+      ? Response.json(daoInfo)
+      : new Response(null, { status: 404 }),
+})
+
+// Mocked Discord and generic webhooks.
+const mockWebhooks = (context: TestContext): ApiClient => ({
+  fetch: async (url, init) => {
+    const call = {
+      url,
+      headers: Object.fromEntries(new Headers(init?.headers).entries()),
+      body: typeof init?.body === 'string' ? init.body : '',
+    }
+    context.webhookCalls.push(call)
+
+    return context.webhook?.(call) ?? new Response(null, { status: 204 })
+  },
+})
+
+// A queue that records the jobs sent to it.
+const mockQueue = (jobs: DeliveryJob[]) =>
+  ({
+    send: async (job: DeliveryJob) => {
+      jobs.push(job)
+    },
+    sendBatch: async (messages: Iterable<MessageSendRequest<DeliveryJob>>) => {
+      for (const { body } of messages) {
+        jobs.push(body)
+      }
+    },
+  } as unknown as Queue<DeliveryJob>)
+
+export const createTestContext = (): TestContext => {
+  const telegramCalls: TelegramCall[] = []
+  const telegram: Record<string, TelegramHandler> = {}
+  const jobs: DeliveryJob[] = []
+  const deadLetters: DeliveryJob[] = []
+
+  const context: TestContext = {
+    env: {
+      ...env,
+      TELEGRAM: mockTelegram(telegramCalls, telegram),
+      INDEXER: mockIndexer(),
+      DELIVERY_QUEUE: mockQueue(jobs),
+      DELIVERY_DEAD_LETTER_QUEUE: mockQueue(deadLetters),
+    },
+    telegramCalls,
+    telegram,
+    webhookCalls: [],
+    jobs,
+    deadLetters,
+  }
+  context.env.WEBHOOKS = mockWebhooks(context)
+
+  return context
+}
+
+// Send a Telegram update to the webhook, returning the reply sent in the
+// response body, if any.
+export const sendUpdate = async (
+  { env }: TestContext,
+  update: unknown
+): Promise<Record<string, unknown> | null> => {
+  const response = await worker.fetch(
+    new Request('https://bot.test/telegram', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Telegram-Bot-Api-Secret-Token': env.WEBHOOK_SECRET,
+      },
+      body: JSON.stringify(update),
+    }),
+    env
+  )
+  if (response.status !== 200) {
+    throw new Error(`Webhook responded with ${response.status}.`)
+  }
+
+  const text = await response.text()
+  return text ? JSON.parse(text) : null
+}
+
+// Send a request to the admin API.
+export const sendAdminRequest = async (
+  { env }: TestContext,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<Response> =>
+  worker.fetch(
+    new Request(`https://bot.test/admin/${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${env.ADMIN_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    env
+  )
+
+// Build a notify request signed with the configured signing key.
+export const signNotifyRequest = async (
+  path: string,
+  payload: unknown
+): Promise<Request> => {
+  const body = JSON.stringify(payload)
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+
+  return new Request(`https://bot.test/${path}/notify`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: `sha256=${await signPayload(
+        env.NOTIFY_SIGNING_KEYS ?? '',
+        timestamp,
+        body
+      )}`,
+    },
+    body,
+  })
+}
+
+// Send a signed notify request.
+export const sendNotify = async (
+  { env }: TestContext,
+  path: string,
+  payload: unknown
+): Promise<Response> =>
+  worker.fetch(await signNotifyRequest(path, payload), env)
+
+// Run the delivery queue consumer on the jobs queued so far, and clear them.
+export const deliverJobs = async (context: TestContext) => {
+  const batch = createMessageBatch<DeliveryJob>(
+    'delivery',
+    context.jobs.splice(0).map((body, index) => ({
+      id: `message-${index}`,
+      timestamp: new Date(),
+      attempts: 1,
+      body,
+    }))
+  )
+  const ctx = createExecutionContext()
+  await worker.queue(batch, context.env)
+  return getQueueResult(batch, ctx)
+}
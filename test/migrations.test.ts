@@ -0,0 +1,88 @@
+import { applyD1Migrations, env } from 'cloudflare:test'
+import { describe, expect, it } from 'vitest'
+
+import { resetDatabase } from './helpers'
+
+type Column = {
+  name: string
+  type: string
+  notnull: number
+  dflt_value: string | null
+  pk: number
+}
+
+// Tables and indexes with their columns, ignoring column order and the tables
+// D1 and migrations add.
+const describeSchema = async () => {
+  const { results: objects } = await env.DB.prepare(
+    "SELECT type, name, tbl_name AS tableName FROM sqlite_master WHERE type IN ('table', 'index') AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%' AND name != 'd1_migrations' ORDER BY name"
+  ).all<{ type: string; name: string; tableName: string }>()
+
+  return Promise.all(
+    objects.map(async ({ type, name, tableName }) => {
+      if (type === 'index') {
+        return { type, name, tableName }
+      }
+
+      const { results: columns } = await env.DB.prepare(
+        `PRAGMA table_info(${name})`
+      ).all<Column>()
+      return {
+        type,
+        name,
+        columns: columns
+          .map(
+            ({ name, type, notnull, dflt_value, pk }): Column => ({
+              name,
+              type,
+              notnull,
+              dflt_value,
+              pk,
+            })
+          )
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      }
+    })
+  )
+}
+
+describe('migrations', () => {
+  it('upgrade the original schema without losing registrations', async () => {
+    const [original, ...migrations] = env.TEST_MIGRATIONS
+
+    // Create the original table the way `schema.sql` used to, without
+    // recording the migration.
+    await env.DB.batch(original.queries.map((query) => env.DB.prepare(query)))
+    await env.DB.prepare(
+      "INSERT INTO registrations (chainId, dao, chatId) VALUES ('neutron-1', 'neutron1dao', '5001')"
+    ).run()
+
+    await applyD1Migrations(env.DB, [original, ...migrations])
+
+    expect(
+      await env.DB.prepare(
+        'SELECT chainId, dao, chatId, notifyTypes, updateMode, reminderHours FROM registrations'
+      ).all()
+    ).toMatchObject({
+      results: [
+        {
+          chainId: 'neutron-1',
+          dao: 'neutron1dao',
+          chatId: '5001',
+          notifyTypes: null,
+          updateMode: 'edit',
+          reminderHours: 24,
+        },
+      ],
+    })
+  })
+
+  it('build the same schema as schema.sql', async () => {
+    await applyD1Migrations(env.DB, env.TEST_MIGRATIONS)
+    const migrated = await describeSchema()
+
+    await resetDatabase()
+
+    expect(await describeSchema()).toEqual(migrated)
+  })
+})
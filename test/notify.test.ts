@@ -0,0 +1,381 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import worker from '../src'
+import { releaseHeldDeliveries } from '../src/crons/quietHours'
+import { sendReminders } from '../src/crons/reminders'
+import {
+  DeliveryStatus,
+  DigestFrequency,
+  NotifyType,
+  ScheduledMessageType,
+} from '../src/types'
+import {
+  TestContext,
+  createTestContext,
+  deliverJobs,
+  resetDatabase,
+  sendNotify,
+  sendUpdate,
+} from './helpers'
+import proposalCreated from './fixtures/notify/proposal-created.json'
+import proposalExecuted from './fixtures/notify/proposal-executed.json'
+import privateRemove from './fixtures/updates/private-remove.json'
+import privateUnmute from './fixtures/updates/private-unmute.json'
+
+const CHAT_ID = '5001'
+const DAO_PATH = 'neutron-1/neutron1dao'
+
+const register = ({ env }: TestContext, chatId = CHAT_ID) =>
+  env.DB.prepare(
+    "INSERT INTO registrations (chainId, dao, chatId) VALUES ('neutron-1', 'neutron1dao', ?1)"
+  )
+    .bind(chatId)
+    .run()
+
+const getDeliveryStatuses = async ({ env }: TestContext) =>
+  (
+    await env.DB.prepare(
+      'SELECT chatId, status FROM deliveries ORDER BY id'
+    ).all()
+  ).results
+
+describe('notify', () => {
+  let context: TestContext
+  beforeEach(async () => {
+    await resetDatabase()
+    context = createTestContext()
+  })
+
+  it('rejects unsigned requests', async () => {
+    await register(context)
+
+    const response = await worker.fetch(
+      new Request(`https://bot.test/${DAO_PATH}/notify`, {
+        method: 'POST',
+        body: JSON.stringify(proposalCreated),
+      }),
+      context.env
+    )
+
+    expect(response.status).toBe(401)
+    expect(context.jobs).toEqual([])
+  })
+
+  it('delivers a new proposal to each registered chat', async () => {
+    await register(context)
+
+    const response = await sendNotify(context, DAO_PATH, proposalCreated)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ success: true, queued: 1 })
+    expect(context.jobs).toEqual([
+      expect.objectContaining({
+        idempotencyKey: proposalCreated.idempotencyKey,
+        chatId: CHAT_ID,
+      }),
+    ])
+    expect(await getDeliveryStatuses(context)).toEqual([
+      { chatId: CHAT_ID, status: DeliveryStatus.Queued },
+    ])
+
+    const result = await deliverJobs(context)
+
+    expect(result.explicitAcks).toEqual(['message-0'])
+    expect(context.telegramCalls).toEqual([
+      {
+        method: 'sendMessage',
+        body: expect.objectContaining({
+          chat_id: Number(CHAT_ID),
+          parse_mode: 'MarkdownV2',
+          text: expect.stringContaining('Fund the grants program'),
+        }),
+      },
+    ])
+    expect(await getDeliveryStatuses(context)).toEqual([
+      { chatId: CHAT_ID, status: DeliveryStatus.Sent },
+    ])
+    expect(
+      await context.env.DB.prepare(
+        'SELECT messageId FROM proposal_messages WHERE chatId = ?1'
+      )
+        .bind(CHAT_ID)
+        .first('messageId')
+    ).toBe(1000)
+  })
+
+  it('accepts proposals with an empty description', async () => {
+    await register(context)
+
+    const response = await sendNotify(context, DAO_PATH, {
+      ...proposalCreated,
+      proposalDescription: '',
+    })
+
+    expect(response.status).toBe(200)
+    expect(context.jobs).toHaveLength(1)
+  })
+
+  it('does not deliver a repeated request twice', async () => {
+    await register(context)
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+
+    const response = await sendNotify(context, DAO_PATH, proposalCreated)
+
+    expect(await response.json()).toEqual({
+      success: true,
+      duplicate: true,
+      queued: 1,
+      resumed: 0,
+    })
+    expect(context.jobs).toEqual([])
+  })
+
+  it('does not enqueue a repeated request again while it is retried', async () => {
+    await register(context)
+    context.telegram.sendMessage = () => ({
+      ok: false,
+      error_code: 429,
+      description: 'Too Many Requests: retry after 1',
+      parameters: { retry_after: 1 },
+    })
+    await sendNotify(context, DAO_PATH, proposalCreated)
+
+    const result = await deliverJobs(context)
+
+    expect(result.retryMessages).toEqual([{ msgId: 'message-0' }])
+    expect(await getDeliveryStatuses(context)).toEqual([
+      { chatId: CHAT_ID, status: DeliveryStatus.Queued },
+    ])
+
+    const response = await sendNotify(context, DAO_PATH, proposalCreated)
+
+    expect(await response.json()).toMatchObject({ resumed: 0 })
+    expect(context.jobs).toEqual([])
+  })
+
+  it('processes a retried request whose fan-out failed', async () => {
+    await register(context)
+    vi.spyOn(context.env.DB, 'batch').mockRejectedValueOnce(
+      new Error('D1_ERROR: Network connection lost.')
+    )
+
+    const failed = await sendNotify(context, DAO_PATH, proposalCreated)
+
+    expect(failed.status).toBe(500)
+    expect(context.jobs).toEqual([])
+
+    const response = await sendNotify(context, DAO_PATH, proposalCreated)
+
+    expect(await response.json()).toEqual({ success: true, queued: 1 })
+    expect(context.jobs).toEqual([expect.objectContaining({ chatId: CHAT_ID })])
+    expect(await getDeliveryStatuses(context)).toEqual([
+      { chatId: CHAT_ID, status: DeliveryStatus.Queued },
+    ])
+  })
+
+  it('only sends votes to chats that chose them', async () => {
+    await register(context)
+    await register(context, '5002')
+    await context.env.DB.prepare(
+      'UPDATE registrations SET notifyTypes = ?2 WHERE chatId = ?1'
+    )
+      .bind('5002', JSON.stringify([NotifyType.VoteCast]))
+      .run()
+
+    const response = await sendNotify(context, DAO_PATH, {
+      ...proposalCreated,
+      type: NotifyType.VoteCast,
+      idempotencyKey: undefined,
+      voter: 'neutron1voter',
+      vote: 'yes',
+      votingPower: 20,
+    })
+
+    expect(await response.json()).toEqual({ success: true, queued: 1 })
+    expect(context.jobs).toEqual([expect.objectContaining({ chatId: '5002' })])
+  })
+
+  it('holds notifications for muted DAOs until they are unmuted', async () => {
+    await register(context)
+    await context.env.DB.prepare(
+      "UPDATE registrations SET mutedUntil = datetime('now', '+1 day')"
+    ).run()
+
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+
+    expect(context.telegramCalls).toEqual([])
+    expect(
+      await context.env.DB.prepare(
+        "SELECT releaseAt > datetime('now') AS held FROM held_deliveries"
+      ).first('held')
+    ).toBe(1)
+
+    await sendUpdate(context, privateUnmute)
+    await releaseHeldDeliveries(context.env)
+    await deliverJobs(context)
+
+    expect(context.telegramCalls).toEqual([
+      expect.objectContaining({ method: 'sendMessage' }),
+    ])
+    expect(await getDeliveryStatuses(context)).toEqual([
+      { chatId: CHAT_ID, status: DeliveryStatus.Sent },
+    ])
+  })
+
+  it('drops notifications for DAOs muted indefinitely', async () => {
+    await register(context)
+    await context.env.DB.prepare(
+      "UPDATE registrations SET mutedUntil = '9999-12-31 23:59:59'"
+    ).run()
+
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+    await sendUpdate(context, privateUnmute)
+    await releaseHeldDeliveries(context.env)
+    await deliverJobs(context)
+
+    expect(context.telegramCalls).toEqual([])
+    expect(
+      await context.env.DB.prepare(
+        'SELECT COUNT(*) AS count FROM held_deliveries'
+      ).first('count')
+    ).toBe(0)
+  })
+
+  it('drops notifications for DAOs removed from the chat', async () => {
+    await register(context)
+    await context.env.DB.prepare(
+      "UPDATE registrations SET mutedUntil = datetime('now', '+1 day')"
+    ).run()
+
+    // One notification is held by the mute, and one is still queued.
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+    await sendNotify(context, DAO_PATH, proposalExecuted)
+    await sendUpdate(context, privateRemove)
+    await deliverJobs(context)
+
+    expect(context.telegramCalls).toEqual([])
+    expect(
+      await context.env.DB.prepare(
+        'SELECT COUNT(*) AS count FROM held_deliveries'
+      ).first('count')
+    ).toBe(0)
+  })
+
+  it('drops reminders for proposals that have closed', async () => {
+    await register(context)
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    const [job] = context.jobs.splice(0)
+    await sendNotify(context, DAO_PATH, proposalExecuted)
+    context.jobs.splice(0)
+
+    // A reminder held during quiet hours, released after the proposal closed.
+    context.jobs.push({
+      ...job,
+      idempotencyKey: `${ScheduledMessageType.Reminder}:neutron-1:neutron1dao:A12`,
+      type: ScheduledMessageType.Reminder,
+    })
+    const result = await deliverJobs(context)
+
+    expect(result.explicitAcks).toEqual(['message-0'])
+    expect(context.telegramCalls).toEqual([])
+  })
+
+  it('does not remind chats that get digests', async () => {
+    await register(context)
+    await register(context, '5002')
+    await context.env.DB.prepare(
+      'UPDATE registrations SET digest = ?2 WHERE chatId = ?1'
+    )
+      .bind('5002', DigestFrequency.Daily)
+      .run()
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    context.jobs.splice(0)
+    await context.env.DB.prepare(
+      "UPDATE open_proposals SET expiresAt = datetime('now', '+1 hour')"
+    ).run()
+
+    await sendReminders(context.env)
+
+    expect(context.jobs).toEqual([
+      expect.objectContaining({
+        type: ScheduledMessageType.Reminder,
+        chatId: CHAT_ID,
+      }),
+    ])
+  })
+
+  it('edits the proposal message when its status changes', async () => {
+    await register(context)
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+
+    await sendNotify(context, DAO_PATH, proposalExecuted)
+    await deliverJobs(context)
+
+    expect(context.telegramCalls.map(({ method }) => method)).toEqual([
+      'sendMessage',
+      'editMessageText',
+    ])
+    expect(context.telegramCalls[1].body).toMatchObject({
+      chat_id: Number(CHAT_ID),
+      message_id: 1000,
+    })
+  })
+
+  it('untracks DAOs in chats that blocked the bot', async () => {
+    await register(context)
+    await register(context, '5002')
+    context.telegram.sendMessage = ({ chat_id }) =>
+      chat_id === Number(CHAT_ID)
+        ? {
+            ok: false,
+            error_code: 403,
+            description: 'Forbidden: bot was blocked by the user',
+          }
+        : undefined
+
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    await deliverJobs(context)
+
+    expect(
+      (await context.env.DB.prepare('SELECT chatId FROM registrations').all())
+        .results
+    ).toEqual([{ chatId: '5002' }])
+    expect(await getDeliveryStatuses(context)).toEqual([
+      { chatId: CHAT_ID, status: DeliveryStatus.Failed },
+      { chatId: '5002', status: DeliveryStatus.Sent },
+    ])
+  })
+
+  it('defers messages to groups over their limit until the next window', async () => {
+    const groupId = '-1001234567890'
+    await register(context, groupId)
+    // 20 messages were sent to the group in an earlier batch.
+    const setWindow = (startedSecondsAgo: number) =>
+      context.env.DB.prepare(
+        'INSERT OR REPLACE INTO group_send_windows (chatId, windowStart, sent) VALUES (?1, ?2, 20)'
+      )
+        .bind(groupId, Math.floor(Date.now() / 1000) - startedSecondsAgo)
+        .run()
+    await setWindow(10)
+
+    await sendNotify(context, DAO_PATH, proposalCreated)
+    const result = await deliverJobs(context)
+
+    expect(result.explicitAcks).toEqual(['message-0'])
+    expect(context.telegramCalls).toEqual([])
+    expect(context.jobs).toEqual([expect.objectContaining({ chatId: groupId })])
+
+    await setWindow(60)
+    await deliverJobs(context)
+
+    expect(context.telegramCalls).toHaveLength(1)
+    expect(await getDeliveryStatuses(context)).toEqual([
+      { chatId: groupId, status: DeliveryStatus.Sent },
+    ])
+  })
+})
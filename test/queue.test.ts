@@ -0,0 +1,128 @@
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+
+import { DeliveryStatus } from '../src/types'
+import { resetDatabase, signNotifyRequest } from './helpers'
+import proposalCreated from './fixtures/notify/proposal-created.json'
+
+const CHAT_ID = '5001'
+const DAO_PATH = 'neutron-1/neutron1dao'
+
+// Intercept the next Telegram Bot API request to a method, recording its body.
+const interceptTelegram = (
+  method: string,
+  status: number,
+  response: unknown,
+  bodies: unknown[]
+) =>
+  fetchMock
+    .get('https://api.telegram.org')
+    .intercept({ path: `/bot${env.BOT_TOKEN}/${method}`, method: 'POST' })
+    .reply(status, ({ body }) => {
+      bodies.push(JSON.parse(String(body)))
+      return JSON.stringify(response)
+    })
+
+// Wait for the queue consumer to settle the delivery to the chat.
+const waitForDelivery = (status: DeliveryStatus) =>
+  vi.waitUntil(
+    async () =>
+      (await env.DB.prepare('SELECT status FROM deliveries WHERE chatId = ?1')
+        .bind(CHAT_ID)
+        .first('status')) === status,
+    { timeout: 10_000, interval: 100 }
+  )
+
+// Notify requests go through the local delivery queue to the worker's queue
+// consumer, which sends to Telegram over `fetch`.
+describe('delivery queue', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+  afterEach(() => fetchMock.assertNoPendingInterceptors())
+
+  beforeEach(async () => {
+    await resetDatabase()
+    await env.DB.prepare(
+      "INSERT INTO registrations (chainId, dao, chatId) VALUES ('neutron-1', 'neutron1dao', ?1)"
+    )
+      .bind(CHAT_ID)
+      .run()
+  })
+
+  it('delivers notify requests through the queue', async () => {
+    const sent: unknown[] = []
+    interceptTelegram(
+      'sendMessage',
+      200,
+      { ok: true, result: { message_id: 77, chat: { id: Number(CHAT_ID) } } },
+      sent
+    )
+
+    const response = await SELF.fetch(
+      await signNotifyRequest(DAO_PATH, proposalCreated)
+    )
+    expect(await response.json()).toEqual({ success: true, queued: 1 })
+
+    await waitForDelivery(DeliveryStatus.Sent)
+
+    expect(sent).toEqual([
+      expect.objectContaining({
+        chat_id: Number(CHAT_ID),
+        text: expect.stringContaining('Fund the grants program'),
+      }),
+    ])
+    expect(
+      await env.DB.prepare(
+        'SELECT messageId FROM proposal_messages WHERE chatId = ?1'
+      )
+        .bind(CHAT_ID)
+        .first('messageId')
+    ).toBe(77)
+  })
+
+  it('retries deliveries after the delay Telegram asks for', async () => {
+    const sent: unknown[] = []
+    interceptTelegram(
+      'sendMessage',
+      429,
+      {
+        ok: false,
+        error_code: 429,
+        description: 'Too Many Requests: retry after 1',
+        parameters: { retry_after: 1 },
+      },
+      sent
+    )
+    interceptTelegram(
+      'sendMessage',
+      200,
+      { ok: true, result: { message_id: 78, chat: { id: Number(CHAT_ID) } } },
+      sent
+    )
+
+    await SELF.fetch(await signNotifyRequest(DAO_PATH, proposalCreated))
+    await waitForDelivery(DeliveryStatus.Sent)
+
+    expect(sent).toHaveLength(2)
+    expect(
+      (
+        await env.DB.prepare(
+          'SELECT attempt, ok, errorCode FROM delivery_attempts ORDER BY id'
+        ).all()
+      ).results
+    ).toEqual([
+      { attempt: 1, ok: 0, errorCode: 429 },
+      { attempt: 2, ok: 1, errorCode: null },
+    ])
+  })
+})
@@ -0,0 +1,5 @@
+// Files imported as text, like `schema.sql`.
+declare module '*?raw' {
+  const text: string
+  export default text
+}
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import worker from '../src'
+import { RegistrationRow } from '../src/types'
+import {
+  TestContext,
+  createTestContext,
+  resetDatabase,
+  sendUpdate,
+} from './helpers'
+import groupAdd from './fixtures/updates/group-add.json'
+import groupBotRemoved from './fixtures/updates/group-bot-removed.json'
+import privateAdd from './fixtures/updates/private-add.json'
+import privateFiltersRegex from './fixtures/updates/private-filters-regex.json'
+import privateLanguage from './fixtures/updates/private-language.json'
+import privateRemove from './fixtures/updates/private-remove.json'
+
+const GROUP_CHAT_ID = '-1001234567890'
+const USER_ID = 5001
+
+const getRegistrations = async ({ env }: TestContext) =>
+  (
+    await env.DB.prepare(
+      'SELECT chainId, dao, chatId, messageThreadId FROM registrations ORDER BY id'
+    ).all<
+      Pick<RegistrationRow, 'chainId' | 'dao' | 'chatId' | 'messageThreadId'>
+    >()
+  ).results
+
+describe('Telegram webhook', () => {
+  let context: TestContext
+  beforeEach(async () => {
+    await resetDatabase()
+    context = createTestContext()
+  })
+
+  it('rejects updates without the webhook secret', async () => {
+    const rejected = await worker.fetch(
+      new Request('https://bot.test/telegram', {
+        method: 'POST',
+        body: JSON.stringify(privateAdd),
+      }),
+      context.env
+    )
+
+    expect(rejected.status).toBe(401)
+    expect(await getRegistrations(context)).toEqual([])
+  })
+
+  it('tracks a DAO from a link in a private chat', async () => {
+    const reply = await sendUpdate(context, privateAdd)
+
+    expect(reply).toMatchObject({
+      method: 'sendMessage',
+      chat_id: USER_ID,
+      parse_mode: 'MarkdownV2',
+    })
+    expect(reply?.text).toContain('Neutron DAO')
+    // Private chats do not check admins.
+    expect(context.telegramCalls).toEqual([])
+    expect(await getRegistrations(context)).toEqual([
+      {
+        chainId: 'neutron-1',
+        dao: 'neutron1dao',
+        chatId: String(USER_ID),
+        messageThreadId: null,
+      },
+    ])
+  })
+
+  it('does not track a DAO twice', async () => {
+    await sendUpdate(context, privateAdd)
+    const reply = await sendUpdate(context, privateAdd)
+
+    expect(reply?.text).toContain("You're already tracking")
+    expect(await getRegistrations(context)).toHaveLength(1)
+  })
+
+  it('untracks a DAO', async () => {
+    await sendUpdate(context, privateAdd)
+    const reply = await sendUpdate(context, privateRemove)
+
+    expect(reply).toMatchObject({ method: 'sendMessage', chat_id: USER_ID })
+    expect(await getRegistrations(context)).toEqual([])
+  })
+
+  it('rejects regex filters that can backtrack catastrophically', async () => {
+    await sendUpdate(context, privateAdd)
+    const reply = await sendUpdate(context, privateFiltersRegex)
+
+    expect(reply?.text).toContain('cannot repeat a group that repeats')
+    expect(
+      await context.env.DB.prepare('SELECT filters FROM registrations').first(
+        'filters'
+      )
+    ).toBeNull()
+  })
+
+  it('saves regex filters', async () => {
+    await sendUpdate(context, privateAdd)
+    await sendUpdate(context, {
+      ...privateFiltersRegex,
+      message: {
+        ...privateFiltersRegex.message,
+        text: '/filters neutron1dao include /grants? (program|fund)/i',
+      },
+    })
+
+    expect(
+      await context.env.DB.prepare('SELECT filters FROM registrations').first(
+        'filters'
+      )
+    ).toBe(
+      JSON.stringify([
+        { mode: 'include', pattern: '/grants? (program|fund)/i' },
+      ])
+    )
+  })
+
+  it('tracks a DAO in a group when an admin sends /add', async () => {
+    context.telegram.getChatAdministrators = () => ({
+      ok: true,
+      result: [{ user: { id: USER_ID }, status: 'administrator' }],
+    })
+
+    const reply = await sendUpdate(context, groupAdd)
+
+    expect(reply).toMatchObject({
+      method: 'sendMessage',
+      chat_id: Number(GROUP_CHAT_ID),
+    })
+    expect(context.telegramCalls).toContainEqual({
+      method: 'getChatAdministrators',
+      body: { chat_id: GROUP_CHAT_ID },
+    })
+    expect(await getRegistrations(context)).toEqual([
+      {
+        chainId: 'neutron-1',
+        dao: 'neutron1dao',
+        chatId: GROUP_CHAT_ID,
+        messageThreadId: null,
+      },
+    ])
+  })
+
+  it('ignores /add from group members who are not admins', async () => {
+    context.telegram.getChatAdministrators = () => ({
+      ok: true,
+      result: [{ user: { id: 6001 }, status: 'creator' }],
+    })
+
+    await sendUpdate(context, groupAdd)
+
+    expect(await getRegistrations(context)).toEqual([])
+  })
+
+  it('untracks every DAO in a group when the bot is removed', async () => {
+    context.telegram.getChatAdministrators = () => ({
+      ok: true,
+      result: [{ user: { id: USER_ID }, status: 'administrator' }],
+    })
+    await sendUpdate(context, groupAdd)
+    await sendUpdate(context, privateAdd)
+
+    const reply = await sendUpdate(context, groupBotRemoved)
+
+    expect(reply).toBeNull()
+    expect(await getRegistrations(context)).toEqual([
+      expect.objectContaining({ chatId: String(USER_ID) }),
+    ])
+  })
+
+  it('replies in the language set with /language', async () => {
+    const reply = await sendUpdate(context, privateLanguage)
+
+    expect(reply?.text).toContain('Español')
+    expect(
+      await context.env.DB.prepare(
+        'SELECT language FROM chat_settings WHERE chatId = ?1'
+      )
+        .bind(String(USER_ID))
+        .first('language')
+    ).toBe('es')
+  })
+})
@@ -0,0 +1,61 @@
+import { existsSync, readFileSync } from 'node:fs'
+import {
+  defineWorkersConfig,
+  readD1Migrations,
+} from '@cloudflare/vitest-pool-workers/config'
+
+// Run the tests on the runtime the worker is deployed with, from
+// `wrangler.toml` or the example it is copied from.
+const wranglerConfig = readFileSync(
+  existsSync('wrangler.toml') ? 'wrangler.toml' : 'wrangler.toml.example',
+  'utf8'
+)
+const compatibilityDate = wranglerConfig.match(
+  /^compatibility_date\s*=\s*"([^"]+)"/m
+)?.[1]
+if (!compatibilityDate) {
+  throw new Error('`compatibility_date` not found in the wrangler config.')
+}
+
+export default defineWorkersConfig(async () => ({
+  test: {
+    include: ['test/**/*.test.ts'],
+    poolOptions: {
+      workers: {
+        // Tests share one worker, and each test gets a fresh local D1.
+        singleWorker: true,
+        isolatedStorage: true,
+        // Handles queue messages, like the deployed worker.
+        main: './src/index.ts',
+        miniflare: {
+          compatibilityDate,
+          compatibilityFlags: ['nodejs_compat'],
+          d1Databases: ['DB'],
+          // Local queues set up like `wrangler.toml.example`.
+          queueProducers: {
+            DELIVERY_QUEUE: 'telegram-notifier-delivery',
+            DELIVERY_DEAD_LETTER_QUEUE: 'telegram-notifier-delivery-dlq',
+          },
+          queueConsumers: {
+            'telegram-notifier-delivery': {
+              maxBatchSize: 25,
+              maxBatchTimeout: 1,
+              maxRetries: 10,
+              deadLetterQueue: 'telegram-notifier-delivery-dlq',
+            },
+          },
+          bindings: {
+            BOT_TOKEN: 'test-token',
+            BOT_USERNAME: 'dao_dao_test_bot',
+            WEBHOOK_SECRET: 'test-webhook-secret',
+            INDEXER_URL: 'https://indexer.test',
+            UI_HOSTS: 'daodao.zone',
+            NOTIFY_SIGNING_KEYS: 'test-signing-key',
+            ADMIN_API_KEY: 'test-admin-key',
+            TEST_MIGRATIONS: await readD1Migrations('migrations'),
+          },
+        },
+      },
+    },
+  },
+}))